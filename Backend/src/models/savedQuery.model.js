@@ -0,0 +1,38 @@
+const { DataTypes } = require("sequelize");
+const sequelize = require("../database/db.config");
+
+/**
+ * A named filter tree saved from the dashboard filter bar, with the Query DSL it compiles to
+ */
+const SavedQuery = sequelize.define(
+  "SavedQuery",
+  {
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    description: {
+      type: DataTypes.STRING,
+      defaultValue: "",
+    },
+    dataView: {
+      type: DataTypes.STRING,
+    },
+    customLabel: {
+      type: DataTypes.STRING,
+    },
+    tree: {
+      type: DataTypes.JSON, // Filter tree { id, root }
+      allowNull: false,
+    },
+    queryDSL: {
+      type: DataTypes.JSON,
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt & updatedAt
+  }
+);
+
+module.exports = SavedQuery;
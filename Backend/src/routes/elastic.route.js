@@ -3,6 +3,10 @@ const auth = require('../../middleware/auth')
 const axios = require('axios');
 const path = require('path');
 const elasticFilterService = require('../services/elasticFilterService');
+const filterService = require('../services/filterService');
+const dataViewService = require('../services/dataViewService');
+const savedQueryService = require('../services/savedQueryService');
+const exportService = require('../services/exportService');
 const cors = require('cors');
 const router = express.Router();
 
@@ -38,44 +42,134 @@ client.ping( function (error) {
 
 
 
-router.get('/fields', async (req, res) => {
+/**
+ * Respond 404 when the request names an unknown data view
+ */
+function unknownDataView(req, res) {
+  const id = req.query.dataView || req.body.dataView || req.params.id;
+  return res.status(404).json({
+    error: 'Data view not found',
+    message: `Unknown data view "${id}"`
+  });
+}
+
+router.get('/data-views', (req, res) => {
+  res.json(dataViewService.getDataViews());
+});
+
+router.get('/data-views/:id', async (req, res) => {
   try {
-    
-    const index = 'web-l';
-    const mapping = await client.indices.getMapping({ index });
+    const dataView = dataViewService.getDataView(req.params.id);
+    if (!dataView) {
+      return unknownDataView(req, res);
+    }
 
-    const fields = new Set();
+    const fields = await dataViewService.getFieldMetadata(client, dataView);
+    res.json({ ...dataView, fields });
 
-    const extract = (properties, prefix = '') => {
-      for (const key in properties) {
-        const fieldPath = prefix ? `${prefix}.${key}` : key;
-        const field = properties[key];
+  } catch (err) {
+    console.error('❌ Error in /data-views API:', err);
+    res.status(500).json({ error: 'Failed to fetch data view' });
+  }
+});
 
-        // Nested object
-        if (field.properties) {
-          extract(field.properties, fieldPath);
-        }
+/**
+ * Respond 404 when a saved query does not exist
+ */
+function unknownSavedQuery(req, res) {
+  return res.status(404).json({
+    error: 'Saved query not found',
+    message: `Unknown saved query "${req.params.id}"`
+  });
+}
+
+/**
+ * Respond 409 for a duplicate saved query name, 500 otherwise
+ */
+function savedQueryError(err, res, message) {
+  if (savedQueryService.isDuplicateNameError(err)) {
+    return res.status(409).json({
+      error: 'Duplicate name',
+      message: 'A saved query with this name already exists'
+    });
+  }
+  console.error(`❌ ${message}:`, err);
+  return res.status(500).json({ error: message, message: err.message });
+}
 
-        // Normal field (exclude implicit keyword name)
-        if (field.type && key !== 'keyword') {
-          fields.add(fieldPath);
-        }
+router.get('/saved-queries', async (req, res) => {
+  try {
+    res.json(await savedQueryService.listSavedQueries(req.query.dataView));
+  } catch (err) {
+    savedQueryError(err, res, 'Failed to list saved queries');
+  }
+});
 
-        // keyword sub-field
-        if (field.fields && field.fields.keyword) {
-          fields.add(`${fieldPath}.keyword`);
-        }
-      }
-    };
+router.get('/saved-queries/:id', async (req, res) => {
+  try {
+    const savedQuery = await savedQueryService.getSavedQuery(req.params.id);
+    if (!savedQuery) {
+      return unknownSavedQuery(req, res);
+    }
+    res.json(savedQuery);
+  } catch (err) {
+    savedQueryError(err, res, 'Failed to fetch saved query');
+  }
+});
+
+router.post('/saved-queries', async (req, res) => {
+  try {
+    const validationError = savedQueryService.validateSavedQuery(req.body);
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid saved query', message: validationError });
+    }
+    res.status(201).json(await savedQueryService.createSavedQuery(req.body));
+  } catch (err) {
+    savedQueryError(err, res, 'Failed to save query');
+  }
+});
 
-    for (const indexName in mapping) {
-      extract(mapping[indexName].mappings.properties);
+// Update or rename: only the fields sent are changed
+router.put('/saved-queries/:id', async (req, res) => {
+  try {
+    const validationError = savedQueryService.validateSavedQuery(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ error: 'Invalid saved query', message: validationError });
+    }
+    const savedQuery = await savedQueryService.updateSavedQuery(req.params.id, req.body);
+    if (!savedQuery) {
+      return unknownSavedQuery(req, res);
     }
+    res.json(savedQuery);
+  } catch (err) {
+    savedQueryError(err, res, 'Failed to update saved query');
+  }
+});
 
+router.delete('/saved-queries/:id', async (req, res) => {
+  try {
+    const deleted = await savedQueryService.deleteSavedQuery(req.params.id);
+    if (!deleted) {
+      return unknownSavedQuery(req, res);
+    }
+    res.status(204).end();
+  } catch (err) {
+    savedQueryError(err, res, 'Failed to delete saved query');
+  }
+});
+
+router.get('/fields', async (req, res) => {
+  try {
     
-    //console.log('📤 Final extracted fields:', [...fields]);
+    const dataView = dataViewService.resolveDataView(req);
+    if (!dataView) {
+      return unknownDataView(req, res);
+    }
+
+    // Typed field catalog: name, type, aggregatable, searchable and .keyword subfield
+    const fields = await dataViewService.getFieldMetadata(client, dataView);
 
-    res.json([...fields]);
+    res.json(fields);
 
   } catch (err) {
     console.error('❌ Error in /fields API:', err);
@@ -86,7 +180,7 @@ router.get('/fields', async (req, res) => {
 
 router.get('/field-values',  async (req, res) => {
   try {
-    const { field, search, size, filters } = req.query;
+    const { field, search, size, filters, counts } = req.query;
     
     if (!field) {
       return res.status(400).json({ 
@@ -95,7 +189,11 @@ router.get('/field-values',  async (req, res) => {
       });
     }
 
-    const index = 'web-l';
+    const dataView = dataViewService.resolveDataView(req);
+    if (!dataView) {
+      return unknownDataView(req, res);
+    }
+    const index = dataView.indexPattern;
     
     // Parse existing filters if provided (for context-aware filtering like Kibana)
     let existingFilters = null;
@@ -112,7 +210,8 @@ router.get('/field-values',  async (req, res) => {
     const options = {
       searchTerm: search || null,
       size: size ? parseInt(size) : 100,
-      existingFilters: existingFilters
+      existingFilters: existingFilters,
+      withCounts: counts === 'true'
     };
 
     // Use the dedicated filter service to get field values (Kibana-like behavior)
@@ -165,56 +264,176 @@ router.get('/field-values',  async (req, res) => {
   }
 });
 
+// Min, max and percentiles of a numeric or date field, for value suggestions
+router.get('/field-summary', async (req, res) => {
+  try {
+    const { field, filters, percentiles } = req.query;
+
+    if (!field) {
+      return res.status(400).json({
+        error: 'Field parameter is required',
+        message: 'Please provide a field name to summarize'
+      });
+    }
+
+    const dataView = dataViewService.resolveDataView(req);
+    if (!dataView) {
+      return unknownDataView(req, res);
+    }
+
+    let existingFilters = null;
+    if (filters) {
+      try {
+        existingFilters = typeof filters === 'string' ? JSON.parse(filters) : filters;
+      } catch (parseError) {
+        console.warn('Failed to parse existing filters for field summary:', parseError);
+      }
+    }
+
+    const summary = await elasticFilterService.getFieldSummary(client, dataView.indexPattern, field, {
+      existingFilters,
+      percentiles: percentiles === 'true'
+    });
+    res.json(summary);
+
+  } catch (err) {
+    console.error('Error fetching field summary:', err);
+    res.status(500).json({
+      error: 'Failed to fetch field summary',
+      message: err.message || 'Unknown error occurred'
+    });
+  }
+});
+
+// How long a point in time stays open between two pages of the log table
+const PIT_KEEP_ALIVE = '5m';
+
+/**
+ * Opens a point in time on the index, so every page of a result set reads the same snapshot
+ */
+async function openPointInTime(index) {
+  const response = await client.transport.request({
+    method: 'POST',
+    path: `/${encodeURIComponent(index)}/_pit`,
+    query: { keep_alive: PIT_KEEP_ALIVE }
+  });
+  return response.id;
+}
+
+async function closePointInTime(pitId) {
+  await client.transport.request({
+    method: 'DELETE',
+    path: '/_pit',
+    body: { id: pitId }
+  });
+}
+
+/**
+ * Whether a search failed because its point in time expired or was closed
+ */
+function isMissingPointInTime(err) {
+  const body = err.body || err.meta?.body;
+  return JSON.stringify(body || err.message || '').includes('search_context_missing_exception');
+}
+
+// Log table: one page of documents after the searchAfter cursor (the sort values of the
+// last document of the previous page), read from a point in time so deep pages are as fast
+// as the first and are not limited by index.max_result_window
 router.post('/web-logs-search',  async (req, res) => {
+  // Point in time opened by this request, closed here unless its id reaches the client
+  let openedPitId = null;
   try {
     const {
       queryDSL,
-      page = 0,
+      timeRange,
       size = 10,
-      sortField = '@timestamp',
-      sortOrder = 'desc'
+      sortField,
+      sortOrder = 'desc',
+      searchAfter
     } = req.body;
+    let { pitId } = req.body;
 
-    const index = 'web-l';
-    
-    // Build query from Query DSL or use default
+    const dataView = dataViewService.resolveDataView(req);
+    if (!dataView) {
+      return unknownDataView(req, res);
+    }
+    const index = dataView.indexPattern;
+    const timeField = dataView.timeField;
+
+    if (searchAfter !== undefined && searchAfter !== null && (!Array.isArray(searchAfter) || !pitId)) {
+      return res.status(400).json({
+        error: 'Invalid cursor',
+        message: 'searchAfter must be the sort values of a previous page, sent with its pitId'
+      });
+    }
+
+    // _shard_doc breaks ties between documents with the same sort value, so no document
+    // is skipped or repeated between pages
     let queryBody = {
-      query: {
-        match_all: {}
-      },
       sort: [
         {
-          [sortField]: {
+          [sortField || timeField]: {
             order: sortOrder
           }
-        }
-      ]
+        },
+        { _shard_doc: 'asc' }
+      ],
+      track_total_hits: true
     };
 
-    // If Query DSL is provided, use it
-    if (queryDSL && queryDSL.query) {
-      queryBody.query = queryDSL.query;
+    try {
+      queryBody.query = filterService.buildSearchQuery(queryDSL, timeRange, timeField);
+    } catch (rangeError) {
+      return res.status(400).json({
+        error: 'Invalid time range',
+        message: rangeError.message
+      });
     }
 
-    const result = await client.search({
-      index,
-      from: page * size,
-      size,
-      body: queryBody
-    });
+    // The first page opens the point in time, the next ones reuse it
+    if (!pitId) {
+      pitId = await openPointInTime(index);
+      openedPitId = pitId;
+    }
+    queryBody.pit = { id: pitId, keep_alive: PIT_KEEP_ALIVE };
+    if (searchAfter) {
+      queryBody.search_after = searchAfter;
+    }
+
+    let result;
+    try {
+      // Searches on a point in time must not name an index
+      result = await client.search({
+        size,
+        body: queryBody
+      });
+    } catch (searchError) {
+      if (isMissingPointInTime(searchError)) {
+        return res.status(410).json({
+          error: 'Point in time expired',
+          message: 'The result set expired, search again from the first page'
+        });
+      }
+      throw searchError;
+    }
 
     // Format response similar to Kibana
     const hits = result.hits.hits.map(hit => ({
       _id: hit._id,
       _index: hit._index,
       _source: hit._source,
-      _score: hit._score
+      _score: hit._score,
+      sort: hit.sort
     }));
 
+    openedPitId = null;
     res.json({
       total: result.hits.total?.value || result.hits.total,
       hits: hits,
-      data: hits.map(h => h._source) // For backward compatibility
+      data: hits.map(h => h._source), // For backward compatibility
+      // Point in time ids can change between searches; the next page must use the latest one
+      pitId: result.pit_id || pitId,
+      searchAfter: hits.length > 0 ? hits[hits.length - 1].sort : searchAfter || null
     });
 
   } catch (err) {
@@ -223,9 +442,448 @@ router.post('/web-logs-search',  async (req, res) => {
       error: 'Elasticsearch query failed',
       message: err.message
     });
+  } finally {
+    if (openedPitId) {
+      closePointInTime(openedPitId).catch(closeError => {
+        console.warn('Failed to close the search point in time:', closeError.message);
+      });
+    }
+  }
+});
+
+// Closes the point in time of a log table result set once its filters change
+router.delete('/web-logs-search/pit', async (req, res) => {
+  try {
+    const { pitId } = req.body;
+    if (!pitId || typeof pitId !== 'string') {
+      return res.status(400).json({
+        error: 'pitId is required',
+        message: 'Please provide the point in time id to close'
+      });
+    }
+
+    await closePointInTime(pitId);
+    res.json({ closed: true });
+
+  } catch (err) {
+    // Already expired: nothing left to close
+    if (isMissingPointInTime(err) || err.status === 404 || err.meta?.statusCode === 404) {
+      return res.json({ closed: false });
+    }
+    console.error('Elasticsearch Error:', err.meta?.body || err);
+    res.status(500).json({
+      error: 'Failed to close the point in time',
+      message: err.message
+    });
   }
 });
 
+// Exports stop at this many rows; the frontend can ask for fewer. The browser builds
+// the downloaded file in memory, so this stays well below what the search could stream.
+const MAX_EXPORT_ROWS = 50000;
+const EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Resolves once the response can take more data, or the client went away
+ */
+function waitForDrain(res) {
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+// Export: streams every document matching the filters, up to maxRows, as CSV of the
+// table columns or NDJSON of the _source. Pages are read with search_after on a point
+// in time; the download stops as soon as the client cancels it.
+router.post('/web-logs-export', async (req, res) => {
+  let pitId = null;
+  let cancelled = false;
+  res.on('close', () => {
+    cancelled = !res.writableEnded;
+  });
+
+  try {
+    const {
+      queryDSL,
+      timeRange,
+      format = 'csv',
+      columns = [],
+      sortField,
+      sortOrder = 'desc',
+      maxRows = MAX_EXPORT_ROWS
+    } = req.body;
+
+    const dataView = dataViewService.resolveDataView(req);
+    if (!dataView) {
+      return unknownDataView(req, res);
+    }
+    const timeField = dataView.timeField;
+
+    const exportFormat = exportService.getExportFormat(format);
+    if (!exportFormat) {
+      return res.status(400).json({
+        error: 'Invalid format',
+        message: `format must be one of ${Object.keys(exportService.EXPORT_FORMATS).join(', ')}`
+      });
+    }
+
+    if (format === 'csv' && (!Array.isArray(columns) || columns.length === 0 || !columns.every(column => typeof column === 'string'))) {
+      return res.status(400).json({
+        error: 'Columns are required',
+        message: 'Please provide the fields to export as CSV columns'
+      });
+    }
+
+    if (!Number.isInteger(maxRows) || maxRows < 1 || maxRows > MAX_EXPORT_ROWS) {
+      return res.status(400).json({
+        error: 'Invalid row limit',
+        message: `maxRows must be an integer from 1 to ${MAX_EXPORT_ROWS}`
+      });
+    }
+
+    let query;
+    try {
+      query = filterService.buildSearchQuery(queryDSL, timeRange, timeField);
+    } catch (rangeError) {
+      return res.status(400).json({
+        error: 'Invalid time range',
+        message: rangeError.message
+      });
+    }
+
+    pitId = await openPointInTime(dataView.indexPattern);
+    const sort = [
+      { [sortField || timeField]: { order: sortOrder } },
+      { _shard_doc: 'asc' }
+    ];
+
+    let searchAfter = null;
+    let exported = 0;
+    while (!cancelled && exported < maxRows) {
+      const size = Math.min(EXPORT_BATCH_SIZE, maxRows - exported);
+      const body = {
+        query,
+        sort,
+        pit: { id: pitId, keep_alive: PIT_KEEP_ALIVE },
+        // Only the first page needs the total, to announce the row count
+        track_total_hits: exported === 0
+      };
+      if (searchAfter) {
+        body.search_after = searchAfter;
+      }
+
+      const result = await client.search({ size, body });
+      pitId = result.pit_id || pitId;
+      const hits = result.hits.hits;
+
+      if (exported === 0) {
+        const total = result.hits.total?.value || result.hits.total || 0;
+        res.setHeader('Content-Type', exportFormat.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${dataView.id}-export.${exportFormat.extension}"`);
+        // Lets the frontend show the progress of the download
+        res.setHeader('X-Export-Rows', String(Math.min(total, maxRows)));
+        res.setHeader('Access-Control-Expose-Headers', 'X-Export-Rows, Content-Disposition');
+        if (format === 'csv') {
+          res.write(exportService.formatCsvHeader(columns));
+        }
+      }
+
+      if (hits.length === 0) {
+        break;
+      }
+
+      if (!res.write(exportService.formatHits(hits, format, columns))) {
+        await waitForDrain(res);
+      }
+      exported += hits.length;
+      searchAfter = hits[hits.length - 1].sort;
+
+      if (hits.length < size) {
+        break;
+      }
+    }
+
+    res.end();
+
+  } catch (err) {
+    console.error('Elasticsearch Error:', err.meta?.body || err);
+    if (res.headersSent) {
+      // Part of the file is already sent: abort it rather than end it as if complete
+      res.destroy(err);
+    } else {
+      res.status(500).json({
+        error: 'Elasticsearch export failed',
+        message: err.message
+      });
+    }
+  } finally {
+    if (pitId) {
+      closePointInTime(pitId).catch(closeError => {
+        console.warn('Failed to close the export point in time:', closeError.message);
+      });
+    }
+  }
+});
+
+
+router.post('/web-logs-histogram',  async (req, res) => {
+  try {
+    const {
+      queryDSL,
+      timeRange,
+      interval,
+      min,
+      max
+    } = req.body;
+
+    const dataView = dataViewService.resolveDataView(req);
+    if (!dataView) {
+      return unknownDataView(req, res);
+    }
+    const index = dataView.indexPattern;
+    const timeField = dataView.timeField;
+
+    // The frontend picks the interval from the time range (e.g. "30s", "5m", "1d")
+    if (!interval || !/^\d+[smhd]$/.test(interval)) {
+      return res.status(400).json({
+        error: 'Invalid interval',
+        message: 'interval must be a fixed interval such as "30s", "5m", "1h" or "1d"'
+      });
+    }
+
+    let query;
+    try {
+      query = filterService.buildSearchQuery(queryDSL, timeRange, timeField);
+    } catch (rangeError) {
+      return res.status(400).json({
+        error: 'Invalid time range',
+        message: rangeError.message
+      });
+    }
+
+    const dateHistogram = {
+      field: timeField,
+      fixed_interval: interval,
+      min_doc_count: 0
+    };
+
+    // Day buckets start at local midnight, like the "now/d" bounds of the time range
+    const timeZone = filterService.getTimeZone(timeRange);
+    if (timeZone) {
+      dateHistogram.time_zone = timeZone;
+    }
+
+    // Empty buckets over the whole range, so the chart spans the time picker range
+    if (Number.isFinite(min) && Number.isFinite(max)) {
+      dateHistogram.extended_bounds = { min, max };
+    }
+
+    const result = await client.search({
+      index,
+      size: 0,
+      body: {
+        query,
+        track_total_hits: true,
+        aggs: {
+          hits_over_time: {
+            date_histogram: dateHistogram
+          }
+        }
+      }
+    });
+
+    const buckets = result.aggregations.hits_over_time.buckets.map(bucket => ({
+      key: bucket.key,
+      count: bucket.doc_count
+    }));
+
+    res.json({
+      total: result.hits.total?.value || result.hits.total,
+      interval,
+      buckets
+    });
+
+  } catch (err) {
+    console.error('Elasticsearch Error:', err.meta?.body || err);
+    res.status(500).json({
+      error: 'Elasticsearch histogram query failed',
+      message: err.message
+    });
+  }
+});
+
+
+// Field sidebar: most frequent values of a field in the documents matching the filters,
+// with the total so the share of each value in the result set can be shown
+router.post('/web-logs-top-values', async (req, res) => {
+  try {
+    const {
+      queryDSL,
+      timeRange,
+      field,
+      size = 5
+    } = req.body;
+
+    const dataView = dataViewService.resolveDataView(req);
+    if (!dataView) {
+      return unknownDataView(req, res);
+    }
+
+    if (!field || typeof field !== 'string') {
+      return res.status(400).json({
+        error: 'Field parameter is required',
+        message: 'Please provide an aggregatable field to fetch top values for'
+      });
+    }
+
+    if (!Number.isInteger(size) || size < 1 || size > 100) {
+      return res.status(400).json({
+        error: 'Invalid size',
+        message: 'size must be an integer from 1 to 100'
+      });
+    }
+
+    let query;
+    try {
+      query = filterService.buildSearchQuery(queryDSL, timeRange, dataView.timeField);
+    } catch (rangeError) {
+      return res.status(400).json({
+        error: 'Invalid time range',
+        message: rangeError.message
+      });
+    }
+
+    const result = await client.search({
+      index: dataView.indexPattern,
+      size: 0,
+      body: {
+        query,
+        track_total_hits: true,
+        aggs: {
+          top_values: {
+            terms: { field, size }
+          },
+          missing_values: {
+            missing: { field }
+          }
+        }
+      }
+    });
+
+    const buckets = result.aggregations.top_values.buckets.map(bucket => ({
+      value: bucket.key_as_string !== undefined ? bucket.key_as_string : bucket.key,
+      count: bucket.doc_count
+    }));
+
+    res.json({
+      total: result.hits.total?.value || result.hits.total,
+      missing: result.aggregations.missing_values.doc_count,
+      buckets
+    });
+
+  } catch (err) {
+    console.error('Elasticsearch Error:', err.meta?.body || err);
+    res.status(500).json({
+      error: 'Elasticsearch top values query failed',
+      message: err.message
+    });
+  }
+});
+
+
+// Attack map: geotile_grid clusters of a geo_point field (source IP locations) over the
+// visible map area, each with the centroid of its documents to place the marker
+router.post('/web-logs-geo', async (req, res) => {
+  try {
+    const {
+      queryDSL,
+      timeRange,
+      field,
+      precision,
+      bounds
+    } = req.body;
+
+    const dataView = dataViewService.resolveDataView(req);
+    if (!dataView) {
+      return unknownDataView(req, res);
+    }
+
+    if (!field || typeof field !== 'string') {
+      return res.status(400).json({
+        error: 'Field parameter is required',
+        message: 'Please provide the geo_point field to cluster'
+      });
+    }
+
+    // geotile_grid zoom levels go from 0 to 29
+    if (!Number.isInteger(precision) || precision < 0 || precision > 29) {
+      return res.status(400).json({
+        error: 'Invalid precision',
+        message: 'precision must be an integer from 0 to 29'
+      });
+    }
+
+    let query;
+    try {
+      query = filterService.buildSearchQuery(queryDSL, timeRange, dataView.timeField);
+    } catch (rangeError) {
+      return res.status(400).json({
+        error: 'Invalid time range',
+        message: rangeError.message
+      });
+    }
+
+    const geotileGrid = {
+      field,
+      precision,
+      size: 2000
+    };
+    if (bounds && bounds.top_left && bounds.bottom_right) {
+      geotileGrid.bounds = bounds;
+    }
+
+    const result = await client.search({
+      index: dataView.indexPattern,
+      size: 0,
+      body: {
+        query,
+        track_total_hits: true,
+        aggs: {
+          clusters: {
+            geotile_grid: geotileGrid,
+            aggs: {
+              centroid: { geo_centroid: { field } }
+            }
+          }
+        }
+      }
+    });
+
+    const buckets = result.aggregations.clusters.buckets.map(bucket => ({
+      key: bucket.key,
+      count: bucket.doc_count,
+      centroid: bucket.centroid.location
+    }));
+
+    res.json({
+      total: result.hits.total?.value || result.hits.total,
+      buckets
+    });
+
+  } catch (err) {
+    console.error('Elasticsearch Error:', err.meta?.body || err);
+    res.status(500).json({
+      error: 'Elasticsearch geo query failed',
+      message: err.message
+    });
+  }
+});
 
 
 module.exports = router
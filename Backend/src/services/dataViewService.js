@@ -0,0 +1,217 @@
+/**
+ * Data View Service
+ * A data view names an index pattern, its time field and the columns shown by default,
+ * like Kibana data views. Every search route resolves the data view sent by the client
+ * instead of hard-coding an index.
+ *
+ * Data views can be configured with the DATA_VIEWS environment variable, a JSON array of
+ * { id, name, indexPattern, timeField, defaultColumns } objects.
+ */
+
+const DEFAULT_DATA_VIEWS = [
+  {
+    id: 'web-logs',
+    name: 'Web logs',
+    indexPattern: 'web-l',
+    timeField: '@timestamp',
+    defaultColumns: [
+      '@timestamp',
+      '@version',
+      'WAF_DATE',
+      'WAF_TIME',
+      'agent.ephemeral_id',
+      'agent.hostname',
+      'agent.id',
+      'agent.name',
+      'agent.type',
+      'agent.version',
+      'ecs.version',
+      'hname',
+      'host.architecture',
+      'host.containerized',
+      'host.hostname',
+      'host.id',
+      'host.ip',
+      'host.mac',
+      'host.name',
+      'host.os.family',
+      'host.os.kernel',
+      'host.os.name',
+      'host.os.platform',
+      'host.os.type',
+      'host.os.version',
+      'input.type',
+      'iptype',
+      'iptype_dst',
+      'log.file.path',
+      'log.offset',
+      'log_id',
+      'logcat',
+      'logfilepath',
+      'logname',
+      'message',
+      'region',
+      'request',
+      'siem_dstip',
+      'siem_firewall',
+      'siem_hostname',
+      'siem_logname',
+      'siem_shostname',
+      'siem_sourceip',
+      'siem_sourceip_geoip.city_name',
+      'siem_sourceip_geoip.continent_code',
+      'siem_sourceip_geoip.country_code2',
+      'siem_sourceip_geoip.country_code3',
+      'siem_sourceip_geoip.country_name',
+      'siem_sourceip_geoip.dma_code',
+      'siem_sourceip_geoip.ip',
+      'siem_sourceip_geoip.latitude',
+      'siem_sourceip_geoip.location.lat',
+      'siem_sourceip_geoip.location.lon',
+      'siem_sourceip_geoip.longitude',
+      'siem_sourceip_geoip.postal_code',
+      'siem_sourceip_geoip.region_code',
+      'siem_sourceip_geoip.region_name',
+      'siem_sourceip_geoip.timezone',
+      'siem_waf_dstport',
+      'siem_waf_srcport',
+      'tags',
+      'timestamp',
+      'useragent',
+      'verb',
+      'waf_action',
+      'waf_content_switch_name',
+      'waf_device_id',
+      'waf_dst',
+      'waf_dst_port',
+      'waf_http_agent',
+      'waf_http_host',
+      'waf_http_method',
+      'waf_http_session_id',
+      'waf_http_url',
+      'waf_msg',
+      'waf_msg_id',
+      'waf_policy',
+      'waf_pri',
+      'waf_proto',
+      'waf_server_pool_name',
+      'waf_service',
+      'waf_severity_level',
+      'waf_signature_id',
+      'waf_signature_subclass',
+      'waf_src',
+      'waf_src_port',
+      'waf_srccountry',
+      'waf_subtype',
+      'waf_timezone',
+      'waf_type',
+      'waf_vd',
+      'wafmessage'
+    ]
+  }
+];
+
+/**
+ * Load the configured data views, falling back to the built-in web logs data view
+ * 
+ * @returns {Array} Data views
+ */
+function loadDataViews() {
+  if (!process.env.DATA_VIEWS) {
+    return DEFAULT_DATA_VIEWS;
+  }
+
+  try {
+    const dataViews = JSON.parse(process.env.DATA_VIEWS);
+    const valid = Array.isArray(dataViews) && dataViews.every(dataView => dataView.id && dataView.indexPattern);
+    if (valid && dataViews.length > 0) {
+      return dataViews.map(dataView => ({
+        name: dataView.id,
+        timeField: '@timestamp',
+        defaultColumns: [],
+        ...dataView
+      }));
+    }
+    console.error('DATA_VIEWS must be a non-empty array of { id, indexPattern } objects, using defaults');
+  } catch (parseErr) {
+    console.error('Error parsing DATA_VIEWS:', parseErr);
+  }
+  return DEFAULT_DATA_VIEWS;
+}
+
+const dataViews = loadDataViews();
+
+/**
+ * Get all data views
+ * 
+ * @returns {Array} Data views
+ */
+function getDataViews() {
+  return dataViews;
+}
+
+/**
+ * Get a data view by id; without an id the first data view is the default
+ * 
+ * @param {string} id - Data view id
+ * @returns {Object|null} Data view, or null when the id is unknown
+ */
+function getDataView(id) {
+  if (!id) {
+    return dataViews[0];
+  }
+  return dataViews.find(dataView => dataView.id === id) || null;
+}
+
+/**
+ * Resolve the data view of a request from the "dataView" query parameter or body property
+ * 
+ * @param {Object} req - Express request object
+ * @returns {Object|null} Data view, or null when the id is unknown
+ */
+function resolveDataView(req) {
+  const id = (req.query && req.query.dataView) || (req.body && req.body.dataView);
+  return getDataView(id);
+}
+
+/**
+ * Get the typed field catalog of a data view from the field capabilities API
+ * Each field has its Elasticsearch type (keyword, text, date, long, ip, boolean, geo_point...),
+ * whether it is aggregatable and searchable, and the name of its .keyword subfield if any.
+ * 
+ * @param {Object} client - Elasticsearch client instance
+ * @param {Object} dataView - Data view
+ * @returns {Promise<Array>} Fields as { name, type, aggregatable, searchable, keywordSubfield }
+ */
+async function getFieldMetadata(client, dataView) {
+  const caps = await client.fieldCaps({ index: dataView.indexPattern, fields: '*' });
+  const names = Object.keys(caps.fields || {});
+
+  return names
+    .filter(name => !name.startsWith('_'))
+    .map(name => {
+      // A field mapped differently in several indices has one entry per type, the first one wins
+      const types = Object.keys(caps.fields[name]);
+      const type = types[0];
+      const capabilities = caps.fields[name][type];
+      const keywordSubfield = names.includes(`${name}.keyword`) ? `${name}.keyword` : undefined;
+
+      return {
+        name,
+        type,
+        aggregatable: !!capabilities.aggregatable,
+        searchable: !!capabilities.searchable,
+        ...(keywordSubfield ? { keywordSubfield } : {}),
+        ...(types.length > 1 ? { conflictingTypes: types } : {})
+      };
+    })
+    .filter(field => !['object', 'nested'].includes(field.type))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+module.exports = {
+  getDataViews,
+  getDataView,
+  resolveDataView,
+  getFieldMetadata
+};
@@ -17,13 +17,15 @@ const elasticsearch = require('elasticsearch');
  * @param {string} options.searchTerm - Optional search term to filter values
  * @param {number} options.size - Maximum number of values to return (default: 100, max: 1000)
  * @param {Object} options.existingFilters - Optional existing Query DSL filters to apply context
- * @returns {Promise<Array>} Array of field values
+ * @param {boolean} options.withCounts - Return { value, count } pairs ordered by document count
+ * @returns {Promise<Array>} Array of field values, or of { value, count } with options.withCounts
  */
 async function getFieldValues(client, index, field, options = {}) {
   const {
     searchTerm = null,
     size = 100,
-    existingFilters = null
+    existingFilters = null,
+    withCounts = false
   } = options;
 
   const maxSize = Math.min(size, 1000); // Limit to 1000 max
@@ -57,7 +59,8 @@ async function getFieldValues(client, index, field, options = {}) {
           terms: {
             field: baseField,
             size: maxSize,
-            order: { _key: 'asc' } // Sort alphabetically
+            // Sort alphabetically, or most frequent first when counts are shown
+            order: withCounts ? { _count: 'desc' } : { _key: 'asc' }
           }
         }
       }
@@ -114,14 +117,17 @@ async function getFieldValues(client, index, field, options = {}) {
       return [];
     }
 
+    // Handle different data types
+    const getBucketValue = bucket => bucket.key_as_string !== undefined ? bucket.key_as_string : bucket.key;
+
+    if (withCounts) {
+      return buckets
+        .filter(bucket => getBucketValue(bucket) !== null && getBucketValue(bucket) !== undefined)
+        .map(bucket => ({ value: getBucketValue(bucket), count: bucket.doc_count }));
+    }
+
     // Return array of values
-    const values = buckets.map(bucket => {
-      // Handle different data types
-      if (bucket.key_as_string !== undefined) {
-        return bucket.key_as_string;
-      }
-      return bucket.key;
-    });
+    const values = buckets.map(getBucketValue);
 
     // Remove duplicates and null/undefined values
     const uniqueValues = [...new Set(values)].filter(v => v !== null && v !== undefined);
@@ -152,6 +158,64 @@ async function getFieldValues(client, index, field, options = {}) {
   }
 }
 
+/**
+ * Get a summary of a numeric or date field: min, max and (for numbers) percentiles.
+ * Used to suggest values for fields that terms suggestions don't suit.
+ *
+ * @param {Object} client - Elasticsearch client instance
+ * @param {string} index - Index pattern
+ * @param {string} field - Numeric or date field name
+ * @param {Object} options - Options object
+ * @param {Object} options.existingFilters - Optional existing Query DSL filters to apply context
+ * @param {boolean} options.percentiles - Include the 5/25/50/75/95th percentiles
+ * @returns {Promise<Object>} { min, max, percentiles } - dates are returned formatted
+ */
+async function getFieldSummary(client, index, field, options = {}) {
+  const {
+    existingFilters = null,
+    percentiles = false
+  } = options;
+
+  if (!field || typeof field !== 'string') {
+    throw new Error('Field parameter is required and must be a string');
+  }
+
+  const must = [{ exists: { field } }];
+  if (existingFilters && existingFilters.query) {
+    must.push(existingFilters.query);
+  }
+
+  const aggs = {
+    min_value: { min: { field } },
+    max_value: { max: { field } }
+  };
+  if (percentiles) {
+    aggs.percentile_values = { percentiles: { field, percents: [5, 25, 50, 75, 95] } };
+  }
+
+  const result = await client.search({
+    index: index,
+    body: {
+      size: 0,
+      query: { bool: { must } },
+      aggs
+    }
+  });
+
+  const aggregations = result.aggregations || {};
+  // Dates come with a formatted value, numbers only with the raw one
+  const getValue = agg => {
+    if (!agg || agg.value === null || agg.value === undefined) return null;
+    return agg.value_as_string !== undefined ? agg.value_as_string : agg.value;
+  };
+
+  return {
+    min: getValue(aggregations.min_value),
+    max: getValue(aggregations.max_value),
+    percentiles: aggregations.percentile_values ? aggregations.percentile_values.values : null
+  };
+}
+
 /**
  * Validate if a field can be used for filtering
  * 
@@ -221,6 +285,7 @@ async function getFieldStatistics(client, index, field) {
 
 module.exports = {
   getFieldValues,
+  getFieldSummary,
   validateFieldForFiltering,
   getFieldStatistics
 };
@@ -0,0 +1,105 @@
+/**
+ * Export Service
+ * Formats the documents of a search for download: CSV of the table columns, or NDJSON of
+ * the raw _source. Values are read like the log table displays them
+ * (getFieldValue in Frontend/src/app/kibana-data-table/kibana-data-table.component.ts).
+ */
+
+const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' }
+};
+
+// Spreadsheet applications run cells starting with these characters as formulas,
+// and WAF logs are full of attacker-controlled strings
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Get an export format by name, without matching Object.prototype properties
+ *
+ * @param {string} format - Format name sent by the client
+ * @returns {Object|null} The format, null when unknown
+ */
+function getExportFormat(format) {
+  return Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format) ? EXPORT_FORMATS[format] : null;
+}
+
+/**
+ * Get the value of a field from a document source, following nested paths
+ * (e.g. 'agent.ephemeral_id') and falling back to dotted keys
+ *
+ * @param {Object} source - Document _source
+ * @param {string} field - Field name
+ * @returns {*} The value, undefined when the field is missing
+ */
+function getSourceValue(source, field) {
+  if (!source) {
+    return undefined;
+  }
+  if (field in source) {
+    return source[field];
+  }
+
+  let value = source;
+  for (const part of field.split('.')) {
+    if (value && typeof value === 'object' && !Array.isArray(value) && part in value) {
+      value = value[part];
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+/**
+ * Format one CSV cell: objects and arrays as JSON, missing values empty,
+ * quoted when needed and with formulas neutralized
+ *
+ * @param {*} value - Field value
+ * @returns {string} CSV cell
+ */
+function formatCsvCell(value) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * @param {string[]} columns - Exported fields
+ * @returns {string} CSV header line
+ */
+function formatCsvHeader(columns) {
+  return columns.map(formatCsvCell).join(',') + '\r\n';
+}
+
+/**
+ * Format search hits as CSV lines of the columns, or NDJSON lines of their _source
+ *
+ * @param {Array} hits - Elasticsearch hits
+ * @param {string} format - 'csv' or 'ndjson'
+ * @param {string[]} columns - Exported fields, for CSV
+ * @returns {string} Lines for the hits
+ */
+function formatHits(hits, format, columns) {
+  if (format === 'ndjson') {
+    return hits.map(hit => JSON.stringify(hit._source || {}) + '\n').join('');
+  }
+  return hits
+    .map(hit => columns.map(column => formatCsvCell(getSourceValue(hit._source, column))).join(',') + '\r\n')
+    .join('');
+}
+
+module.exports = {
+  EXPORT_FORMATS,
+  getExportFormat,
+  getSourceValue,
+  formatCsvCell,
+  formatCsvHeader,
+  formatHits
+};
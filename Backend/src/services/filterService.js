@@ -1,237 +1,15 @@
 /**
  * Filter Service
- * Handles building Elasticsearch Query DSL from Kibana-style filter objects
- * Uses elastic-builder for proper query construction
+ * Helpers for the Query DSL sent by the frontend.
+ * Filters are compiled to Query DSL by the frontend Query DSL compiler
+ * (Frontend/src/app/common/query-dsl-compiler.ts); the backend only passes it through.
  */
 
-const esb = require('elastic-builder');
-
-/**
- * Build Elasticsearch Query DSL from Kibana-style filter objects
- * Based on Kibana filter operators: is, is not, is one of, is not one of, exists, does not exist
- * 
- * @param {Array} filters - Array of filter objects with structure: { field, operator, value, logic }
- * @param {string} defaultIndex - Default index pattern to use (optional)
- * @returns {Object} Elasticsearch Query DSL object
- */
-function buildElasticsearchQuery(filters, defaultIndex = null) {
-  if (!filters || !Array.isArray(filters) || filters.length === 0) {
-    // Return match_all query if no filters
-    return {
-      query: {
-        match_all: {}
-      }
-    };
-  }
-
-  // Group queries: OR conditions form groups, AND conditions separate groups
-  const queryGroups = [];
-  let currentGroup = [];
-
-  filters.forEach((filter, index) => {
-    if (!filter.field || !filter.operator) {
-      return; // Skip invalid filters
-    }
-
-    const field = filter.field;
-    const operator = filter.operator;
-    const value = filter.value;
-    const logic = filter.logic || 'AND';
-
-    // Determine if field is a keyword field (for exact matches)
-    const isKeywordField = field.endsWith('.keyword');
-    const baseField = field; // Use field as-is for Elasticsearch
-
-    let query = null;
-
-    // Build query based on operator (following Kibana filter mappings)
-    switch (operator) {
-      case 'is':
-      case 'IS':
-        // Field exactly matches a single value
-        // Use term query for keyword fields, match for text fields
-        if (isKeywordField) {
-          query = esb.termQuery(field, value);
-        } else {
-          query = esb.matchQuery(field, value);
-        }
-        break;
-
-      case 'is_not':
-      case 'isNot':
-      case 'IS_NOT':
-        // Field does not exactly match a single value
-        if (isKeywordField) {
-          query = esb.boolQuery().mustNot(esb.termQuery(field, value));
-        } else {
-          query = esb.boolQuery().mustNot(esb.matchQuery(field, value));
-        }
-        break;
-
-      case 'is_one_of':
-      case 'terms':
-      case 'TERMS':
-        // Field matches any of multiple values
-        const values = Array.isArray(value) 
-          ? value 
-          : (typeof value === 'string' ? value.split(',').map(v => v.trim()) : [value]);
-        query = esb.termsQuery(field, values);
-        break;
-
-      case 'is_not_one_of':
-      case 'notTerms':
-      case 'NOT_TERMS':
-        // Field matches none of multiple values
-        const notValues = Array.isArray(value) 
-          ? value 
-          : (typeof value === 'string' ? value.split(',').map(v => v.trim()) : [value]);
-        query = esb.boolQuery().mustNot(esb.termsQuery(field, notValues));
-        break;
-
-      case 'exists':
-      case 'EXISTS':
-        // Field has any value (is present)
-        query = esb.existsQuery(field);
-        break;
-
-      case 'does_not_exist':
-      case 'notExists':
-      case 'NOT_EXISTS':
-        // Field is missing or null
-        query = esb.boolQuery().mustNot(esb.existsQuery(field));
-        break;
-
-      case 'range':
-      case 'RANGE':
-        // Range query with min and max operators
-        const rangeQuery = {};
-        if (filter.minValue) {
-          rangeQuery[filter.minOperator || 'gt'] = filter.minValue;
-        }
-        if (filter.maxValue) {
-          rangeQuery[filter.maxOperator || 'lt'] = filter.maxValue;
-        }
-        if (Object.keys(rangeQuery).length > 0) {
-          query = esb.rangeQuery(field, rangeQuery);
-        } else {
-          console.warn('Range filter requires at least one value');
-          return; // Skip invalid range filters
-        }
-        break;
-
-      case 'prefix':
-      case 'PREFIX':
-        // Prefix query - matches documents where field starts with the given value
-        if (!value) {
-          console.warn('Prefix filter requires a value');
-          return; // Skip invalid prefix filters
-        }
-        // Use prefix query for keyword fields, wildcard for text fields
-        if (isKeywordField) {
-          query = esb.prefixQuery(field, value);
-        } else {
-          // For text fields, use wildcard with prefix pattern
-          query = esb.wildcardQuery(field, `${value}*`).caseInsensitive(true);
-        }
-        break;
-
-      case 'wildcard':
-      case 'WILDCARD':
-        // Wildcard query - matches documents using wildcard patterns (* and ?)
-        if (!value) {
-          console.warn('Wildcard filter requires a value');
-          return; // Skip invalid wildcard filters
-        }
-        // Use wildcard query for both keyword and text fields
-        query = esb.wildcardQuery(field, value).caseInsensitive(true);
-        break;
-
-      case 'query_string':
-      case 'queryString':
-      case 'QUERY_STRING':
-        // Query String query - uses Lucene query syntax
-        if (!value) {
-          console.warn('Query string filter requires a value');
-          return; // Skip invalid query string filters
-        }
-        // Query string works on both keyword and text fields
-        query = esb.queryStringQuery(value).defaultField(field);
-        break;
-
-      default:
-        console.warn(`Unknown filter operator: ${operator}`);
-        return; // Skip unknown operators
-    }
-
-    if (!query) {
-      return; // Skip if query wasn't built
-    }
-
-    const queryJSON = query.toJSON();
-
-    // Group queries: OR conditions form groups, AND conditions separate groups
-    if (index === 0) {
-      // First query always starts a group
-      currentGroup.push(queryJSON);
-    } else {
-      if (logic === 'OR' || logic === 'or') {
-        // Add to current OR group
-        currentGroup.push(queryJSON);
-      } else {
-        // AND - close current group and start new one
-        if (currentGroup.length > 0) {
-          if (currentGroup.length === 1) {
-            // Single query in group - add directly
-            queryGroups.push(currentGroup[0]);
-          } else {
-            // Multiple queries in group - wrap in bool.should
-            queryGroups.push({
-              bool: {
-                should: currentGroup,
-                minimum_should_match: 1
-              }
-            });
-          }
-          currentGroup = [queryJSON];
-        }
-      }
-    }
-  });
-
-  // Add the last group
-  if (currentGroup.length > 0) {
-    if (currentGroup.length === 1) {
-      queryGroups.push(currentGroup[0]);
-    } else {
-      queryGroups.push({
-        bool: {
-          should: currentGroup,
-          minimum_should_match: 1
-        }
-      });
-    }
-  }
-
-  // Build final bool query - all groups are combined with AND (bool.must)
-  const boolQuery = esb.boolQuery();
-
-  if (queryGroups.length > 0) {
-    boolQuery.must(queryGroups);
-  }
-
-  // Return Query DSL object
-  const queryDSL = {
-    query: boolQuery.toJSON()
-  };
-
-  return queryDSL;
-}
-
 /**
  * Convert Query DSL object to Elasticsearch query body
  * This is a helper function that ensures proper format
  * 
- * @param {Object} queryDSL - Query DSL object from buildElasticsearchQuery
+ * @param {Object} queryDSL - Query DSL object compiled by the frontend
  * @returns {Object} Elasticsearch query body ready for client.search()
  */
 function queryDSLToElasticsearchBody(queryDSL) {
@@ -273,32 +51,14 @@ function processFiltersFromRequest(req) {
  * Build Elasticsearch query from request filters
  * 
  * @param {Object} req - Express request object
- * @param {Array} defaultFilters - Optional default filters to apply
  * @returns {Object} Elasticsearch Query DSL object
  */
-function buildQueryFromRequest(req, defaultFilters = []) {
-  // Try to get filters from request query
-  let filters = defaultFilters;
-  
-  if (req.query && req.query.filters) {
-    try {
-      const queryDSL = JSON.parse(req.query.filters);
-      // If it's already a Query DSL object, return it
-      if (queryDSL.query) {
-        return queryDSL;
-      }
-      // If it's an array of filters, use it
-      if (Array.isArray(queryDSL)) {
-        filters = queryDSL;
-      }
-    } catch (parseErr) {
-      console.error('Error parsing filters from request:', parseErr);
-    }
-  }
+function buildQueryFromRequest(req) {
+  const queryDSL = processFiltersFromRequest(req);
 
-  // If filters is an array, build query from it
-  if (Array.isArray(filters) && filters.length > 0) {
-    return buildElasticsearchQuery(filters);
+  // Only compiled Query DSL is accepted, flat filter arrays are compiled on the frontend
+  if (queryDSL && queryDSL.query) {
+    return queryDSL;
   }
 
   // Return match_all as default
@@ -309,9 +69,108 @@ function buildQueryFromRequest(req, defaultFilters = []) {
   };
 }
 
+/**
+ * Get the IANA time zone of a time range (e.g. 'Europe/Paris')
+ * 
+ * @param {Object} timeRange - { from, to, timeZone } sent by the time picker
+ * @returns {string|null} The time zone, null when none is sent
+ */
+function getTimeZone(timeRange) {
+  if (!timeRange || timeRange.timeZone === undefined) {
+    return null;
+  }
+
+  const { timeZone } = timeRange;
+  try {
+    // Throws a RangeError for unknown zones
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch (zoneError) {
+    throw new Error('timeRange.timeZone must be an IANA time zone such as "Europe/Paris"');
+  }
+  return timeZone;
+}
+
+/**
+ * Build the range clause of a time range on the index's time field
+ * Bounds are Elasticsearch date math ("now-15m", "now-7d/d") or absolute dates;
+ * "to" is inclusive and rounds up like Kibana's time picker. Date math is rounded and
+ * dates without an offset are read in the browser's time zone when it is sent.
+ * 
+ * @param {Object} timeRange - { from, to, timeZone } sent by the time picker
+ * @param {string} timeField - Time field of the index (e.g., '@timestamp')
+ * @returns {Object|null} Range clause, or null when no time range is given
+ */
+function buildTimeRangeFilter(timeRange, timeField = '@timestamp') {
+  if (!timeRange) {
+    return null;
+  }
+
+  const { from, to } = timeRange;
+  if (typeof from !== 'string' || typeof to !== 'string' || !from.trim() || !to.trim()) {
+    throw new Error('timeRange must have "from" and "to" date strings');
+  }
+
+  const range = {
+    gte: from.trim(),
+    lte: to.trim(),
+    format: 'strict_date_optional_time||epoch_millis'
+  };
+  if (timeRange.timeZone !== undefined) {
+    range.time_zone = getTimeZone(timeRange);
+  }
+
+  return {
+    range: {
+      [timeField]: range
+    }
+  };
+}
+
+/**
+ * Restrict a query to a time range
+ * 
+ * @param {Object} query - Query clause (the "query" part of the Query DSL)
+ * @param {Object} timeRange - { from, to, timeZone } sent by the time picker
+ * @param {string} timeField - Time field of the index
+ * @returns {Object} Query clause filtered on the time range
+ */
+function applyTimeRange(query, timeRange, timeField = '@timestamp') {
+  const rangeFilter = buildTimeRangeFilter(timeRange, timeField);
+  if (!rangeFilter) {
+    return query;
+  }
+
+  if (!query || query.match_all) {
+    return { bool: { filter: [rangeFilter] } };
+  }
+
+  return {
+    bool: {
+      filter: [query, rangeFilter]
+    }
+  };
+}
+
+/**
+ * Build the query of a log search: the frontend Query DSL restricted to the time range
+ * Shared by the document search and the histogram so both count the same documents.
+ * 
+ * @param {Object} queryDSL - Query DSL object compiled by the frontend
+ * @param {Object} timeRange - { from, to, timeZone } sent by the time picker
+ * @param {string} timeField - Time field of the index
+ * @returns {Object} Query clause
+ */
+function buildSearchQuery(queryDSL, timeRange, timeField = '@timestamp') {
+  const query = queryDSL && queryDSL.query ? queryDSL.query : { match_all: {} };
+  return applyTimeRange(query, timeRange, timeField);
+}
+
 module.exports = {
-  buildElasticsearchQuery,
   queryDSLToElasticsearchBody,
   processFiltersFromRequest,
-  buildQueryFromRequest
+  buildQueryFromRequest,
+  getTimeZone,
+  buildTimeRangeFilter,
+  applyTimeRange,
+  buildSearchQuery
 };
@@ -0,0 +1,112 @@
+/**
+ * Saved Query Service
+ * Saved queries are named filter trees with their Query DSL, like Kibana saved queries.
+ * They are stored with Sequelize so an applied filter group survives page reloads.
+ */
+
+const SavedQuery = require('../models/savedQuery.model');
+
+const EDITABLE_FIELDS = ['name', 'description', 'dataView', 'customLabel', 'tree', 'queryDSL'];
+
+/**
+ * Validate a saved query payload
+ *
+ * @param {Object} body - Request body
+ * @param {boolean} partial - Only validate the fields present (updates and renames)
+ * @returns {string|null} Error message, or null when valid
+ */
+function validateSavedQuery(body, partial = false) {
+  if (!body || typeof body !== 'object') {
+    return 'Saved query is required';
+  }
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return 'Name is required';
+    }
+  }
+
+  if (!partial || body.tree !== undefined) {
+    // Filter tree as built by the filter bar: { id, root }
+    if (!body.tree || typeof body.tree !== 'object' || !body.tree.root || typeof body.tree.root !== 'object') {
+      return 'A filter tree is required';
+    }
+  }
+
+  if (body.queryDSL !== undefined && body.queryDSL !== null && typeof body.queryDSL !== 'object') {
+    return 'Query DSL must be an object';
+  }
+
+  return null;
+}
+
+/**
+ * Keep the editable fields of a payload, with a trimmed name
+ */
+function pickEditableFields(body) {
+  const values = {};
+  EDITABLE_FIELDS.forEach(field => {
+    if (body[field] !== undefined) {
+      values[field] = field === 'name' ? body.name.trim() : body[field];
+    }
+  });
+  return values;
+}
+
+/**
+ * List saved queries, sorted by name
+ *
+ * @param {string} dataView - Only list the saved queries of this data view (optional)
+ */
+async function listSavedQueries(dataView) {
+  return SavedQuery.findAll({
+    where: dataView ? { dataView } : {},
+    order: [['name', 'ASC']]
+  });
+}
+
+async function getSavedQuery(id) {
+  return SavedQuery.findByPk(id);
+}
+
+async function createSavedQuery(body) {
+  return SavedQuery.create(pickEditableFields(body));
+}
+
+/**
+ * Update (or rename) a saved query
+ *
+ * @returns {Promise<Object|null>} The updated saved query, or null when it does not exist
+ */
+async function updateSavedQuery(id, body) {
+  const savedQuery = await SavedQuery.findByPk(id);
+  if (!savedQuery) {
+    return null;
+  }
+  return savedQuery.update(pickEditableFields(body));
+}
+
+/**
+ * @returns {Promise<boolean>} Whether a saved query was deleted
+ */
+async function deleteSavedQuery(id) {
+  const deleted = await SavedQuery.destroy({ where: { id } });
+  return deleted > 0;
+}
+
+/**
+ * Whether an error is a duplicate saved query name
+ */
+function isDuplicateNameError(err) {
+  return err && err.name === 'SequelizeUniqueConstraintError';
+}
+
+module.exports = {
+  validateSavedQuery,
+  listSavedQueries,
+  getSavedQuery,
+  createSavedQuery,
+  updateSavedQuery,
+  deleteSavedQuery,
+  isDuplicateNameError
+};
@@ -24,10 +24,19 @@ import {BrowserAnimationsModule} from "@angular/platform-browser/animations";
 import { AboutComponent } from './about/about.component';
 import { NotfoundComponent } from './notfound/notfound.component';
 import {MatTableModule} from '@angular/material/table';
+import { ScrollingModule } from '@angular/cdk/scrolling';
 import { DashboardFilterWrapperComponent } from './dashboard-filter-wrapper/dashboard-filter-wrapper.component';
 import { KibanaDataTableComponent } from './kibana-data-table/kibana-data-table.component';
 import { KibanaFilterBarComponent } from './kibana-filter-bar/kibana-filter-bar.component';
 import { FilterNodeComponent } from './kibana-filter-bar/filter-node.component';
+import { FilterValueChipsComponent } from './kibana-filter-bar/filter-value-chips.component';
+import { GeoFilterPickerComponent } from './kibana-filter-bar/geo-filter-picker.component';
+import { TimeRangePickerComponent } from './time-range-picker/time-range-picker.component';
+import { LogHistogramComponent } from './log-histogram/log-histogram.component';
+import { AttackMapComponent } from './attack-map/attack-map.component';
+import { FieldSidebarComponent } from './field-sidebar/field-sidebar.component';
+import { DataViewPickerComponent } from './data-view-picker/data-view-picker.component';
+import { SavedQueryManagementComponent } from './saved-query-management/saved-query-management.component';
 @NgModule({
   declarations: [
     AppComponent,
@@ -43,7 +52,15 @@ import { FilterNodeComponent } from './kibana-filter-bar/filter-node.component';
     DashboardFilterWrapperComponent,
     KibanaDataTableComponent,
     KibanaFilterBarComponent,
-    FilterNodeComponent
+    FilterNodeComponent,
+    TimeRangePickerComponent,
+    LogHistogramComponent,
+    DataViewPickerComponent,
+    SavedQueryManagementComponent,
+    FilterValueChipsComponent,
+    GeoFilterPickerComponent,
+    AttackMapComponent,
+    FieldSidebarComponent
   ],
   imports: [
     BrowserModule.withServerTransition({ appId: 'ng-cli-universal' }),
@@ -57,6 +74,7 @@ import { FilterNodeComponent } from './kibana-filter-bar/filter-node.component';
     BrowserAnimationsModule,
     ReactiveFormsModule,
     MatDialogModule,
+    ScrollingModule,
     ToastrModule.forRoot({
       positionClass :'toast-top-right',
       preventDuplicates: true,
@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { AttackMapComponent } from './attack-map.component';
+
+describe('AttackMapComponent', () => {
+  let component: AttackMapComponent;
+  let fixture: ComponentFixture<AttackMapComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ HttpClientTestingModule ],
+      declarations: [ AttackMapComponent ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(AttackMapComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,193 @@
+import { AfterViewInit, Component, ElementRef, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges, ViewChild } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Subscription } from 'rxjs';
+import * as L from 'leaflet';
+import { environment } from 'src/environments/environment';
+import { FilterCondition, FilterGroup, GeoPoint } from '../filter.model';
+import { DataView } from '../data-view.model';
+import { TimeRange, toTimeRangeRequest } from '../common/time-range';
+import { getGeoTileBounds } from '../common/geo-filters';
+
+// Field clustered when the data view has it, otherwise its first geo_point field
+export const DEFAULT_ATTACK_MAP_FIELD = 'siem_sourceip_geoip.location';
+
+const TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Tiles of the aggregation per map tile: precision is the map zoom plus this
+const PRECISION_OFFSET = 2;
+const MAX_PRECISION = 29;
+
+interface GeoCluster {
+  key: string; // geotile_grid key, "zoom/x/y"
+  count: number;
+  centroid: GeoPoint;
+}
+
+/**
+ * Attack map: source IP locations of the documents matching the dashboard filters,
+ * clustered with a geotile_grid aggregation of the visible area. Clicking a cluster
+ * filters the dashboard on its tile.
+ */
+@Component({
+  selector: 'app-attack-map',
+  templateUrl: './attack-map.component.html',
+  styleUrls: ['./attack-map.component.scss']
+})
+export class AttackMapComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @Input() filters: FilterGroup | null = null;
+  @Input() timeRange: TimeRange | null = null;
+  @Input() dataView: DataView | null = null;
+  @Output() filterAdd = new EventEmitter<Partial<FilterCondition>>();
+
+  @ViewChild('mapContainer', { static: true }) mapContainer!: ElementRef<HTMLDivElement>;
+
+  geoField: string | null = null;
+  clusters: GeoCluster[] = [];
+  totalHits: number = 0;
+  loading: boolean = false;
+  error: string | null = null;
+
+  private map: L.Map | null = null;
+  private markers = L.layerGroup();
+  private clustersSubscription?: Subscription;
+
+  constructor(private http: HttpClient) { }
+
+  ngAfterViewInit(): void {
+    this.map = L.map(this.mapContainer.nativeElement, { worldCopyJump: true }).setView([20, 0], 2);
+    L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 18 }).addTo(this.map);
+    this.markers.addTo(this.map);
+
+    // Panning and zooming cluster the newly visible area at the new precision
+    this.map.on('moveend', () => this.loadClusters());
+    this.loadClusters();
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['dataView']) {
+      const geoField = this.pickGeoField();
+      if (geoField !== this.geoField) {
+        this.geoField = geoField;
+        // The panel was hidden while there was no field to show
+        setTimeout(() => this.map?.invalidateSize());
+      }
+    }
+    this.loadClusters();
+  }
+
+  ngOnDestroy(): void {
+    if (this.clustersSubscription) {
+      this.clustersSubscription.unsubscribe();
+    }
+    this.map?.remove();
+    this.map = null;
+  }
+
+  loadClusters(): void {
+    if (!this.map || !this.geoField || !this.timeRange) {
+      return;
+    }
+
+    this.loading = true;
+    this.error = null;
+
+    const payload: any = {
+      timeRange: toTimeRangeRequest(this.timeRange),
+      field: this.geoField,
+      precision: Math.min(MAX_PRECISION, this.map.getZoom() + PRECISION_OFFSET)
+    };
+    const bounds = this.getVisibleBounds();
+    if (bounds) {
+      payload.bounds = bounds;
+    }
+    if (this.filters && this.filters.queryDSL) {
+      payload.queryDSL = this.filters.queryDSL;
+    }
+    if (this.dataView) {
+      payload.dataView = this.dataView.id;
+    }
+
+    // Only the latest request matters while the map moves
+    if (this.clustersSubscription) {
+      this.clustersSubscription.unsubscribe();
+    }
+
+    this.clustersSubscription = this.http.post<any>(environment.webLogsGeo, payload).subscribe(
+      (response) => {
+        this.clusters = (response.buckets || []).filter((cluster: GeoCluster) => !!cluster.centroid);
+        this.totalHits = response.total || 0;
+        this.loading = false;
+        this.renderClusters();
+      },
+      (error) => {
+        console.error('Error loading attack map:', error);
+        this.error = error.error?.message || 'Failed to load the attack map';
+        this.clusters = [];
+        this.loading = false;
+        this.renderClusters();
+      }
+    );
+  }
+
+  getClusteredHits(): number {
+    return this.clusters.reduce((sum, cluster) => sum + cluster.count, 0);
+  }
+
+  /**
+   * Adds a filter on the cluster's tile, ANDed with the current filters
+   */
+  selectCluster(cluster: GeoCluster): void {
+    const bounds = getGeoTileBounds(cluster.key);
+    if (!bounds || !this.geoField) {
+      return;
+    }
+    this.filterAdd.emit({ field: this.geoField, operator: 'geo_bounding_box', value: bounds });
+  }
+
+  private pickGeoField(): string | null {
+    const geoFields = (this.dataView?.fields || []).filter(field => field.type === 'geo_point');
+    const preferred = geoFields.find(field => field.name === DEFAULT_ATTACK_MAP_FIELD);
+    return (preferred || geoFields[0])?.name || null;
+  }
+
+  /**
+   * Visible area as geotile_grid bounds; none once the whole world is in view
+   */
+  private getVisibleBounds(): any | null {
+    const bounds = this.map!.getBounds();
+    if (bounds.getEast() - bounds.getWest() >= 360) {
+      return null;
+    }
+
+    const wrapLon = (lon: number) => L.latLng(0, lon).wrap().lng;
+    const clampLat = (lat: number) => Math.max(-90, Math.min(90, lat));
+    return {
+      top_left: { lat: clampLat(bounds.getNorth()), lon: wrapLon(bounds.getWest()) },
+      bottom_right: { lat: clampLat(bounds.getSouth()), lon: wrapLon(bounds.getEast()) }
+    };
+  }
+
+  /**
+   * One marker per cluster, sized by its share of the largest cluster
+   */
+  private renderClusters(): void {
+    this.markers.clearLayers();
+    const maxCount = Math.max(1, ...this.clusters.map(cluster => cluster.count));
+
+    this.clusters.forEach(cluster => {
+      const size = Math.round(24 + 24 * Math.sqrt(cluster.count / maxCount));
+      const count = cluster.count.toLocaleString();
+      const marker = L.marker(L.latLng(cluster.centroid.lat, cluster.centroid.lon), {
+        icon: L.divIcon({
+          html: `<span>${count}</span>`,
+          className: 'attack-cluster',
+          iconSize: [size, size]
+        }),
+        title: `${count} hits, click to filter on this area`
+      });
+      marker.on('click', () => this.selectCluster(cluster));
+      marker.addTo(this.markers);
+    });
+  }
+}
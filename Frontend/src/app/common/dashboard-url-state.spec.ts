@@ -0,0 +1,76 @@
+import { FilterTree } from '../filter.model';
+import { DASHBOARD_STATE_VERSION, decodeDashboardState, encodeDashboardState } from './dashboard-url-state';
+
+describe('DashboardUrlState', () => {
+  let nextId = 0;
+  const generateId = () => `id_${nextId++}`;
+
+  beforeEach(() => nextId = 0);
+
+  const tree: FilterTree = {
+    id: 'tree',
+    root: {
+      id: 'root',
+      operator: 'AND',
+      children: [
+        { id: 'a', field: 'verb.keyword', operator: 'is', value: 'GET' },
+        {
+          id: 'group',
+          operator: 'OR',
+          children: [
+            { id: 'b', field: 'bytes', operator: 'range', minOperator: 'gte', minValue: 0, maxOperator: 'lt', maxValue: 1000 },
+            { id: 'c', field: 'message', operator: 'is', value: 'état réseau ✓' }
+          ]
+        }
+      ]
+    }
+  };
+
+  it('round-trips the filter tree, query and table state', () => {
+    const encoded = encodeDashboardState({
+      tree,
+      customLabel: 'GET requests',
+      kqlQuery: 'response >= 400',
+      table: { columns: ['@timestamp', 'request'], sortField: 'bytes', sortOrder: 'asc', pageSize: 50 }
+    });
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+
+    const decoded = decodeDashboardState(encoded, generateId)!;
+    expect(decoded.tree).toEqual({
+      id: 'id_0',
+      root: {
+        id: 'id_1',
+        operator: 'AND',
+        children: [
+          { id: 'id_2', field: 'verb.keyword', operator: 'is', value: 'GET' },
+          {
+            id: 'id_3',
+            operator: 'OR',
+            children: [
+              { id: 'id_4', field: 'bytes', operator: 'range', minOperator: 'gte', minValue: 0, maxOperator: 'lt', maxValue: 1000 },
+              { id: 'id_5', field: 'message', operator: 'is', value: 'état réseau ✓' }
+            ]
+          }
+        ]
+      }
+    } as any);
+    expect(decoded.customLabel).toBe('GET requests');
+    expect(decoded.kqlQuery).toBe('response >= 400');
+    expect(decoded.table).toEqual({ columns: ['@timestamp', 'request'], sortField: 'bytes', sortOrder: 'asc', pageSize: 50 });
+  });
+
+  it('encodes an empty state to null', () => {
+    expect(encodeDashboardState({ tree: { id: 'tree', root: null } })).toBeNull();
+  });
+
+  it('rejects malformed parameters and unknown versions', () => {
+    const future = btoa(JSON.stringify({ v: DASHBOARD_STATE_VERSION + 1, q: 'a:1' }));
+    const badTree = btoa(JSON.stringify({ v: DASHBOARD_STATE_VERSION, t: { op: 'XOR', c: [] } }));
+
+    expect(decodeDashboardState('not base64!')).toBeNull();
+    expect(decodeDashboardState(future)).toBeNull();
+    expect(decodeDashboardState(badTree)).toBeNull();
+    expect(decodeDashboardState('')).toBeNull();
+  });
+});
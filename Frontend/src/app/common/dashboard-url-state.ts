@@ -0,0 +1,160 @@
+import { BooleanNode, FilterNode, FilterTree, isBooleanNode } from '../filter.model';
+
+/**
+ * Dashboard URL state
+ * The filter tree, KQL query and log table state are kept in the "_a" query parameter (like
+ * Kibana's app state) so a dashboard link can be shared and browser history steps through
+ * filter changes. The time range and data view keep their own readable parameters.
+ *
+ * Encoding: base64url of a compact JSON object with a format version. Node ids are dropped
+ * and regenerated on decode; condition keys are shortened.
+ */
+
+export const DASHBOARD_STATE_VERSION = 1;
+
+export interface TableState {
+  columns: string[];
+  sortField: string;
+  sortOrder: 'asc' | 'desc';
+  pageSize: number;
+}
+
+export interface DashboardState {
+  tree?: FilterTree | null;
+  customLabel?: string;
+  kqlQuery?: string;
+  table?: TableState | null;
+}
+
+// Short keys of the condition properties, other properties are kept as they are
+const CONDITION_KEYS: { [key: string]: string } = {
+  field: 'f',
+  operator: 'o',
+  value: 'v',
+  minOperator: 'mo',
+  minValue: 'mv',
+  maxOperator: 'xo',
+  maxValue: 'xv'
+};
+
+const EXPANDED_KEYS: { [key: string]: string } = Object.keys(CONDITION_KEYS)
+  .reduce((keys, key) => ({ ...keys, [CONDITION_KEYS[key]]: key }), {});
+
+function defaultGenerateId(): string {
+  return `filter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function compactNode(node: FilterNode): any {
+  if (isBooleanNode(node)) {
+    return { op: node.operator, c: node.children.map(compactNode) };
+  }
+
+  const compact: any = {};
+  Object.keys(node).forEach(key => {
+    const value = (node as any)[key];
+    if (key !== 'id' && value !== undefined && value !== '') {
+      compact[CONDITION_KEYS[key] || key] = value;
+    }
+  });
+  return compact;
+}
+
+function expandNode(compact: any, generateId: () => string): FilterNode {
+  if (!compact || typeof compact !== 'object' || Array.isArray(compact)) {
+    throw new Error('Invalid filter node');
+  }
+
+  if (compact.op !== undefined) {
+    if ((compact.op !== 'AND' && compact.op !== 'OR') || !Array.isArray(compact.c)) {
+      throw new Error('Invalid filter group');
+    }
+    const group: BooleanNode = {
+      id: generateId(),
+      operator: compact.op,
+      children: compact.c.map((child: any) => expandNode(child, generateId))
+    };
+    return group;
+  }
+
+  const condition: any = { id: generateId() };
+  Object.keys(compact).forEach(key => condition[EXPANDED_KEYS[key] || key] = compact[key]);
+  if (typeof condition.field !== 'string') {
+    throw new Error('Invalid filter condition');
+  }
+  return condition;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => binary += String.fromCharCode(byte));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Encodes the dashboard state for the URL; an empty state encodes to null (no parameter)
+ */
+export function encodeDashboardState(state: DashboardState): string | null {
+  const compact: any = { v: DASHBOARD_STATE_VERSION };
+  if (state.tree?.root) {
+    compact.t = compactNode(state.tree.root);
+  }
+  if (state.customLabel) {
+    compact.l = state.customLabel;
+  }
+  if (state.kqlQuery) {
+    compact.q = state.kqlQuery;
+  }
+  if (state.table) {
+    compact.c = state.table.columns;
+    compact.s = [state.table.sortField, state.table.sortOrder];
+    compact.p = state.table.pageSize;
+  }
+
+  return Object.keys(compact).length > 1 ? toBase64Url(JSON.stringify(compact)) : null;
+}
+
+/**
+ * Decodes a dashboard state parameter. Returns null for malformed parameters and for
+ * versions this build doesn't know, so a bad link falls back to the default dashboard.
+ */
+export function decodeDashboardState(encoded: string | null | undefined, generateId: () => string = defaultGenerateId): DashboardState | null {
+  if (!encoded) {
+    return null;
+  }
+
+  try {
+    const compact = JSON.parse(fromBase64Url(encoded));
+    if (!compact || compact.v !== DASHBOARD_STATE_VERSION) {
+      return null;
+    }
+
+    const state: DashboardState = {};
+    if (compact.t) {
+      state.tree = { id: generateId(), root: expandNode(compact.t, generateId) };
+    }
+    if (typeof compact.l === 'string') {
+      state.customLabel = compact.l;
+    }
+    if (typeof compact.q === 'string') {
+      state.kqlQuery = compact.q;
+    }
+    if (Array.isArray(compact.c) && Array.isArray(compact.s) && typeof compact.p === 'number') {
+      state.table = {
+        columns: compact.c.filter((column: any) => typeof column === 'string'),
+        sortField: String(compact.s[0]),
+        sortOrder: compact.s[1] === 'asc' ? 'asc' : 'desc',
+        pageSize: compact.p
+      };
+    }
+    return state;
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,20 @@
+import { countExportLines, EMPTY_LINE_COUNT, getExportedRows } from './export-rows';
+
+describe('ExportRows', () => {
+  it('counts the CSV rows, not the line breaks of quoted cells', () => {
+    const csv = 'request,agent\r\n"GET /\nHTTP/1.1","say ""hi""\r\n"\r\n/login,curl\r\n';
+    expect(getExportedRows(countExportLines(csv, 'csv', EMPTY_LINE_COUNT), 'csv')).toBe(2);
+  });
+
+  it('keeps counting across chunks split inside a quoted cell', () => {
+    const csv = 'request\r\n"a\nb"\r\nc\r\n';
+    const first = countExportLines(csv.slice(0, 12), 'csv', EMPTY_LINE_COUNT);
+    expect(first.quoted).toBe(true);
+    expect(getExportedRows(countExportLines(csv, 'csv', first), 'csv')).toBe(2);
+  });
+
+  it('counts NDJSON lines, whatever their quotes', () => {
+    const ndjson = '{"message":"a \\"b"}\n{"message":"c\\nd"}\n';
+    expect(getExportedRows(countExportLines(ndjson, 'ndjson', EMPTY_LINE_COUNT), 'ndjson')).toBe(2);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Export progress helpers
+ * Count the rows of an export download as its text arrives. CSV cells holding line breaks
+ * are quoted with their quotes doubled (Backend/src/services/exportService.js), so CSV rows
+ * end at line breaks outside quotes; NDJSON lines escape their line breaks.
+ */
+
+export interface ExportLineCount {
+  length: number; // Length of the text already counted
+  lines: number; // Complete lines, the CSV header included
+  quoted: boolean; // Whether the counted CSV text ends inside a quoted cell
+}
+
+export const EMPTY_LINE_COUNT: ExportLineCount = { length: 0, lines: 0, quoted: false };
+
+/**
+ * Counts the lines of the text received since the previous count
+ */
+export function countExportLines(text: string, format: string, previous: ExportLineCount): ExportLineCount {
+  let { lines, quoted } = previous;
+  for (let index = previous.length; index < text.length; index++) {
+    const char = text[index];
+    if (char === '"' && format === 'csv') {
+      quoted = !quoted;
+    } else if (char === '\n' && !quoted) {
+      lines++;
+    }
+  }
+  return { length: text.length, lines, quoted };
+}
+
+/**
+ * Exported rows of a line count: every line but the CSV header
+ */
+export function getExportedRows(count: ExportLineCount, format: string): number {
+  return Math.max(0, count.lines - (format === 'csv' ? 1 : 0));
+}
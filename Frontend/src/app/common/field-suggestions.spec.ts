@@ -0,0 +1,84 @@
+import { DataViewField } from '../data-view.model';
+import {
+  buildBooleanSuggestions,
+  buildDateSuggestions,
+  buildNumberSuggestions,
+  getSuggestionStrategy
+} from './field-suggestions';
+
+function field(name: string, type: string, extra: Partial<DataViewField> = {}): DataViewField {
+  return { name, type, aggregatable: type !== 'text', searchable: true, ...extra };
+}
+
+describe('FieldSuggestions', () => {
+  describe('getSuggestionStrategy', () => {
+    it('suggests terms of keyword and IP fields', () => {
+      expect(getSuggestionStrategy('verb.keyword', field('verb.keyword', 'keyword'))).toEqual({ strategy: 'terms', field: 'verb.keyword' });
+      expect(getSuggestionStrategy('clientip', field('clientip', 'ip'))).toEqual({ strategy: 'terms', field: 'clientip' });
+    });
+
+    it('suggests terms of text fields through their keyword subfield', () => {
+      expect(getSuggestionStrategy('message', field('message', 'text', { keywordSubfield: 'message.keyword' })))
+        .toEqual({ strategy: 'terms', field: 'message.keyword' });
+      expect(getSuggestionStrategy('message', field('message', 'text')).strategy).toBe('none');
+    });
+
+    it('picks the strategy by field type', () => {
+      expect(getSuggestionStrategy('bytes', field('bytes', 'long')).strategy).toBe('number');
+      expect(getSuggestionStrategy('@timestamp', field('@timestamp', 'date')).strategy).toBe('date');
+      expect(getSuggestionStrategy('secure', field('secure', 'boolean')).strategy).toBe('boolean');
+      expect(getSuggestionStrategy('location', field('location', 'geo_point')).strategy).toBe('none');
+      expect(getSuggestionStrategy('bytes', field('bytes', 'long', { aggregatable: false })).strategy).toBe('none');
+    });
+
+    it('falls back to the field name for unknown fields', () => {
+      expect(getSuggestionStrategy('agent.keyword', undefined).strategy).toBe('terms');
+      expect(getSuggestionStrategy('agent', undefined).strategy).toBe('none');
+    });
+  });
+
+  it('filters boolean suggestions by the typed text', () => {
+    expect(buildBooleanSuggestions()).toEqual([{ value: 'true' }, { value: 'false' }]);
+    expect(buildBooleanSuggestions('F')).toEqual([{ value: 'false' }]);
+  });
+
+  it('suggests min, percentiles and max of numbers without repeats', () => {
+    const suggestions = buildNumberSuggestions({
+      min: 0,
+      max: 20480,
+      percentiles: { '5.0': 0, '25.0': 512.333, '50.0': 2048, '75.0': 6000.5, '95.0': null }
+    });
+
+    expect(suggestions).toEqual([
+      { value: '0', label: 'Minimum' },
+      { value: '512.33', label: '25th percentile' },
+      { value: '2048', label: 'Median' },
+      { value: '6000.5', label: '75th percentile' },
+      { value: '20480', label: 'Maximum' }
+    ]);
+  });
+
+  it('suggests the recent ranges holding date values', () => {
+    const now = new Date('2024-05-10T12:00:00.000Z');
+    const suggestions = buildDateSuggestions({
+      min: '2024-05-08T00:00:00.000Z',
+      max: '2024-05-10T11:50:00.000Z',
+      percentiles: null
+    }, now);
+
+    expect(suggestions.map(suggestion => suggestion.value)).toEqual([
+      'now-15m', 'now-30m', 'now-1h', 'now-24h', 'now-7d', '2024-05-10T11:50:00.000Z', '2024-05-08T00:00:00.000Z'
+    ]);
+    expect(suggestions[0].label).toBe('Last 15 minutes');
+  });
+
+  it('skips ranges ending before the latest date value', () => {
+    const now = new Date('2024-05-10T12:00:00.000Z');
+    const suggestions = buildDateSuggestions({ min: null, max: '2024-05-01T00:00:00.000Z', percentiles: null }, now);
+
+    expect(suggestions.map(suggestion => suggestion.value)).toEqual([
+      'now-30d', 'now-90d', 'now-1y', '2024-05-01T00:00:00.000Z'
+    ]);
+    expect(buildDateSuggestions({ min: null, max: null, percentiles: null }, now)).toEqual([]);
+  });
+});
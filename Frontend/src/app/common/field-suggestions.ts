@@ -0,0 +1,129 @@
+import { DataViewField } from '../data-view.model';
+import { FieldValueSuggestion } from '../filter.model';
+import { getFieldTypeFamily, isTextType } from './field-types';
+import { parseDateMath, QUICK_RANGES } from './time-range';
+
+/**
+ * Field value suggestions
+ * The filter editor suggests values with a strategy picked by field type: the most frequent
+ * terms for exact-value fields (text fields through their keyword subfield), min/max and
+ * percentile hints for numbers, true/false for booleans and recent ranges for dates.
+ */
+
+export type SuggestionStrategy = 'terms' | 'number' | 'boolean' | 'date' | 'none';
+
+export interface SuggestionPlan {
+  strategy: SuggestionStrategy;
+  field: string; // Field queried for the suggestions, e.g. the keyword subfield of a text field
+}
+
+/**
+ * Min and max of a numeric or date field (dates formatted), with percentiles for numbers
+ */
+export interface FieldSummary {
+  min: number | string | null;
+  max: number | string | null;
+  percentiles: { [percent: string]: number | null } | null;
+}
+
+const PERCENTILE_LABELS: { [percent: string]: string } = {
+  '5.0': '5th percentile',
+  '25.0': '25th percentile',
+  '50.0': 'Median',
+  '75.0': '75th percentile',
+  '95.0': '95th percentile'
+};
+
+export function getSuggestionStrategy(fieldName: string, field: DataViewField | undefined): SuggestionPlan {
+  if (!field) {
+    // Fields missing from the catalog fall back to the ".keyword" naming convention
+    return { strategy: fieldName.endsWith('.keyword') ? 'terms' : 'none', field: fieldName };
+  }
+
+  if (isTextType(field.type)) {
+    return field.keywordSubfield
+      ? { strategy: 'terms', field: field.keywordSubfield }
+      : { strategy: 'none', field: fieldName };
+  }
+
+  const family = getFieldTypeFamily(field.type);
+  if (family === 'boolean') {
+    return { strategy: 'boolean', field: fieldName };
+  }
+  if (!field.aggregatable) {
+    return { strategy: 'none', field: fieldName };
+  }
+
+  switch (family) {
+    case 'string':
+    case 'ip':
+      return { strategy: 'terms', field: fieldName };
+    case 'number':
+      return { strategy: 'number', field: fieldName };
+    case 'date':
+      return { strategy: 'date', field: fieldName };
+    default:
+      return { strategy: 'none', field: fieldName };
+  }
+}
+
+export function canSuggestValues(fieldName: string, field: DataViewField | undefined): boolean {
+  return getSuggestionStrategy(fieldName, field).strategy !== 'none';
+}
+
+export function buildBooleanSuggestions(searchTerm?: string): FieldValueSuggestion[] {
+  const term = (searchTerm || '').trim().toLowerCase();
+  return ['true', 'false']
+    .filter(value => value.startsWith(term))
+    .map(value => ({ value }));
+}
+
+/**
+ * Min, percentiles and max as value hints, without repeating equal values
+ */
+export function buildNumberSuggestions(summary: FieldSummary): FieldValueSuggestion[] {
+  const hints: Array<{ value: number | string | null; label: string }> = [{ value: summary.min, label: 'Minimum' }];
+  Object.keys(PERCENTILE_LABELS).forEach(percent => {
+    const value = summary.percentiles?.[percent];
+    hints.push({ value: typeof value === 'number' ? Math.round(value * 100) / 100 : null, label: PERCENTILE_LABELS[percent] });
+  });
+  hints.push({ value: summary.max, label: 'Maximum' });
+
+  const suggestions: FieldValueSuggestion[] = [];
+  hints.forEach(hint => {
+    if (hint.value === null || hint.value === undefined) return;
+    const value = String(hint.value);
+    if (!suggestions.some(suggestion => suggestion.value === value)) {
+      suggestions.push({ value, label: hint.label });
+    }
+  });
+  return suggestions;
+}
+
+/**
+ * Relative ranges ("now-1h") that contain the field's recent values, followed by its latest
+ * and earliest values. Ranges ending before the latest value are skipped and the list stops
+ * at the first range that reaches back to the earliest one.
+ */
+export function buildDateSuggestions(summary: FieldSummary, now: Date = new Date()): FieldValueSuggestion[] {
+  const latest = summary.max !== null ? new Date(summary.max) : null;
+  const earliest = summary.min !== null ? new Date(summary.min) : null;
+  if (!latest || isNaN(latest.getTime())) {
+    return [];
+  }
+
+  const suggestions: FieldValueSuggestion[] = [];
+  for (const range of QUICK_RANGES.filter(quickRange => quickRange.to === 'now')) {
+    const start = parseDateMath(range.from, false, now);
+    if (!start || start > latest) continue;
+
+    suggestions.push({ value: range.from, label: range.label });
+    if (earliest && start <= earliest) break;
+  }
+
+  suggestions.push({ value: String(summary.max), label: 'Latest value' });
+  if (earliest && summary.min !== summary.max) {
+    suggestions.push({ value: String(summary.min), label: 'Earliest value' });
+  }
+  return suggestions;
+}
@@ -0,0 +1,54 @@
+import { DataViewField } from '../data-view.model';
+
+/**
+ * Field type helpers
+ * Elasticsearch field types grouped into the families Kibana uses to pick operators and inputs.
+ */
+
+export type FieldTypeFamily = 'string' | 'number' | 'date' | 'ip' | 'boolean' | 'geo_point' | 'geo_shape' | 'unknown';
+
+/**
+ * Elasticsearch type of each field, by field name
+ */
+export type FieldTypeMap = { [field: string]: string };
+
+const TYPE_FAMILIES: { [esType: string]: FieldTypeFamily } = {
+  keyword: 'string',
+  constant_keyword: 'string',
+  wildcard: 'string',
+  text: 'string',
+  match_only_text: 'string',
+  version: 'string',
+  long: 'number',
+  integer: 'number',
+  short: 'number',
+  byte: 'number',
+  double: 'number',
+  float: 'number',
+  half_float: 'number',
+  scaled_float: 'number',
+  unsigned_long: 'number',
+  date: 'date',
+  date_nanos: 'date',
+  ip: 'ip',
+  boolean: 'boolean',
+  geo_point: 'geo_point',
+  geo_shape: 'geo_shape'
+};
+
+export function getFieldTypeFamily(esType: string | undefined): FieldTypeFamily {
+  return (esType && TYPE_FAMILIES[esType]) || 'unknown';
+}
+
+/**
+ * Analyzed text fields are matched with full-text queries, every other type with exact terms
+ */
+export function isTextType(esType: string | undefined): boolean {
+  return esType === 'text' || esType === 'match_only_text';
+}
+
+export function buildFieldTypeMap(fields: DataViewField[] | undefined): FieldTypeMap {
+  const fieldTypes: FieldTypeMap = {};
+  (fields || []).forEach(field => fieldTypes[field.name] = field.type);
+  return fieldTypes;
+}
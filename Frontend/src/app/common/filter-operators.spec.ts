@@ -0,0 +1,69 @@
+import { DataViewField } from '../data-view.model';
+import { FILTER_OPERATORS, getOperatorOptions, getRangeBoundError, getSubnetError } from './filter-operators';
+
+function field(name: string, type: string, searchable: boolean = true): DataViewField {
+  return { name, type, aggregatable: type !== 'text', searchable };
+}
+
+function operatorValues(dataViewField: DataViewField | undefined): string[] {
+  return getOperatorOptions(dataViewField).map(operator => operator.value);
+}
+
+describe('FilterOperators', () => {
+  it('offers every operator when the field is unknown', () => {
+    expect(operatorValues(undefined)).toEqual(FILTER_OPERATORS.map(operator => operator.value));
+    expect(operatorValues(field('custom', 'some_plugin_type'))).toEqual(FILTER_OPERATORS.map(operator => operator.value));
+  });
+
+  it('offers string operators for keyword fields', () => {
+    expect(operatorValues(field('verb.keyword', 'keyword'))).toEqual(
+      ['is', 'is_not', 'is_one_of', 'is_not_one_of', 'exists', 'does_not_exist', 'is_in_subnet', 'prefix', 'wildcard']
+    );
+  });
+
+  it('offers query_string only for searchable text fields', () => {
+    expect(operatorValues(field('message', 'text'))).toContain('query_string');
+    expect(operatorValues(field('message', 'text', false))).not.toContain('query_string');
+  });
+
+  it('offers range for numbers, dates and IPs', () => {
+    ['long', 'date', 'ip'].forEach(type => expect(operatorValues(field('f', type))).toContain('range'));
+    expect(operatorValues(field('f', 'keyword'))).not.toContain('range');
+  });
+
+  it('offers is in subnet for ip and keyword fields', () => {
+    expect(operatorValues(field('clientip', 'ip'))).toContain('is_in_subnet');
+    expect(operatorValues(field('waf_src', 'keyword'))).toContain('is_in_subnet');
+    expect(operatorValues(field('message', 'text'))).not.toContain('is_in_subnet');
+    expect(operatorValues(field('bytes', 'long'))).not.toContain('is_in_subnet');
+  });
+
+  it('offers neither lists nor ranges for booleans', () => {
+    expect(operatorValues(field('is_bot', 'boolean'))).toEqual(['is', 'is_not', 'exists', 'does_not_exist']);
+  });
+
+  it('validates range bounds by field type', () => {
+    expect(getRangeBoundError(0, field('bytes', 'long'))).toBeNull();
+    expect(getRangeBoundError('1e3', field('bytes', 'long'))).toBeNull();
+    expect(getRangeBoundError('abc', field('bytes', 'long'))).toBe('Enter a number');
+
+    expect(getRangeBoundError('now-1h', field('@timestamp', 'date'))).toBeNull();
+    expect(getRangeBoundError('2024-05-01T12:00', field('@timestamp', 'date'))).toBeNull();
+    expect(getRangeBoundError('yesterday', field('@timestamp', 'date'))).not.toBeNull();
+
+    expect(getRangeBoundError('10.0.0.1', field('clientip', 'ip'))).toBeNull();
+    expect(getRangeBoundError('10.0.0.0/8', field('clientip', 'ip'))).not.toBeNull();
+    expect(getRangeBoundError('', field('clientip', 'ip'))).toBeNull();
+  });
+
+  it('validates subnets in CIDR notation', () => {
+    expect(getSubnetError('10.0.0.0/8', field('clientip', 'ip'))).toBeNull();
+    expect(getSubnetError('2001:db8::/32', field('clientip', 'ip'))).toBeNull();
+    expect(getSubnetError('', field('clientip', 'ip'))).toBeNull();
+    expect(getSubnetError('10.0.0.0/33', field('clientip', 'ip'))).not.toBeNull();
+    expect(getSubnetError('10.0.0/8', field('clientip', 'ip'))).not.toBeNull();
+
+    expect(getSubnetError('10.0.0.0/8', field('waf_src', 'keyword'))).toBeNull();
+    expect(getSubnetError('2001:db8::/32', field('waf_src', 'keyword'))).toBe('IPv6 subnets can only be matched on ip fields');
+  });
+});
@@ -0,0 +1,114 @@
+import { DataViewField } from '../data-view.model';
+import { FieldTypeFamily, getFieldTypeFamily, isTextType } from './field-types';
+import { hasRangeBound } from './query-dsl-compiler';
+import { parseDateMath } from './time-range';
+import { isValidIp, parseCidr } from './ip-address';
+
+/**
+ * Filter bar operators and the field types they apply to,
+ * like Kibana's filter_editor_utils.getOperatorOptions
+ */
+
+export interface FilterOperatorOption {
+  label: string;
+  value: string;
+  // Type families the operator applies to; no restriction when neither fieldTypes nor field is set
+  fieldTypes?: FieldTypeFamily[];
+  // Field predicate, takes precedence over fieldTypes
+  field?: (field: DataViewField) => boolean;
+}
+
+/**
+ * ip fields, and keyword fields that may hold IP addresses as strings
+ */
+function isSubnetField(field: DataViewField): boolean {
+  const family = getFieldTypeFamily(field.type);
+  return family === 'ip' || (family === 'string' && !isTextType(field.type));
+}
+
+export const FILTER_OPERATORS: FilterOperatorOption[] = [
+  { label: 'is', value: 'is' },
+  { label: 'is not', value: 'is_not' },
+  { label: 'is one of', value: 'is_one_of', fieldTypes: ['string', 'number', 'date', 'ip', 'geo_point', 'geo_shape'] },
+  { label: 'is not one of', value: 'is_not_one_of', fieldTypes: ['string', 'number', 'date', 'ip', 'geo_point', 'geo_shape'] },
+  { label: 'exists', value: 'exists' },
+  { label: 'does not exist', value: 'does_not_exist' },
+  { label: 'is between', value: 'is_between', fieldTypes: ['number', 'date', 'ip'] },
+  { label: 'is not between', value: 'is_not_between', fieldTypes: ['number', 'date', 'ip'] },
+  { label: 'is in subnet', value: 'is_in_subnet', field: isSubnetField },
+  { label: 'range', value: 'range', fieldTypes: ['number', 'date', 'ip'] },
+  { label: 'is within distance of', value: 'geo_distance', fieldTypes: ['geo_point', 'geo_shape'] },
+  { label: 'is inside bounding box', value: 'geo_bounding_box', fieldTypes: ['geo_point', 'geo_shape'] },
+  { label: 'is inside polygon', value: 'geo_polygon', fieldTypes: ['geo_point', 'geo_shape'] },
+  { label: 'prefix', value: 'prefix', fieldTypes: ['string'] },
+  { label: 'wildcard', value: 'wildcard', fieldTypes: ['string'] },
+  { label: 'query_string', value: 'query_string', field: field => isTextType(field.type) && field.searchable }
+];
+
+// Range operators for min and max values
+export const RANGE_OPERATORS: FilterOperatorOption[] = [
+  { label: 'Greater Than', value: 'gt' },
+  { label: 'Greater Than/Equal To', value: 'gte' },
+  { label: 'Less Than', value: 'lt' },
+  { label: 'Less Than/Equal To', value: 'lte' },
+];
+
+/**
+ * Operators valid for a field; all operators when the field type is unknown
+ */
+export function getOperatorOptions(field: DataViewField | undefined): FilterOperatorOption[] {
+  if (!field || getFieldTypeFamily(field.type) === 'unknown') {
+    return FILTER_OPERATORS;
+  }
+
+  return FILTER_OPERATORS.filter(operator => {
+    if (operator.field) return operator.field(field);
+    if (operator.fieldTypes) return operator.fieldTypes.includes(getFieldTypeFamily(field.type));
+    return true;
+  });
+}
+
+export function isOperatorValidForField(operator: string, field: DataViewField | undefined): boolean {
+  return getOperatorOptions(field).some(option => option.value === operator);
+}
+
+/**
+ * Validates a range bound against the field type: numbers, IP addresses, or absolute dates
+ * and date math ("now-1h") for dates. Returns an error message, or null for valid and empty bounds.
+ */
+export function getRangeBoundError(value: any, field: DataViewField | undefined): string | null {
+  if (!hasRangeBound(value)) {
+    return null;
+  }
+
+  const text = String(value).trim();
+  switch (getFieldTypeFamily(field?.type)) {
+    case 'number':
+      return isNaN(Number(text)) ? 'Enter a number' : null;
+    case 'date':
+      return parseDateMath(text) ? null : 'Enter a date or date math, e.g. now-1h';
+    case 'ip':
+      return isValidIp(text) ? null : 'Enter an IPv4 or IPv6 address';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validates the CIDR notation of an "is in subnet" value. Returns an error message,
+ * or null for valid and empty values.
+ */
+export function getSubnetError(value: any, field: DataViewField | undefined): string | null {
+  if (value === undefined || value === null || String(value).trim() === '') {
+    return null;
+  }
+
+  const cidr = parseCidr(value);
+  if (!cidr) {
+    return 'Enter a subnet in CIDR notation, e.g. 10.0.0.0/8 or 2001:db8::/32';
+  }
+  if (cidr.version === 6 && getFieldTypeFamily(field?.type) === 'string') {
+    return 'IPv6 subnets can only be matched on ip fields';
+  }
+  return null;
+}
@@ -0,0 +1,42 @@
+import { describeGeoValue, getDistanceInMeters, getGeoTileBounds, getGeoValueError, parseDistance } from './geo-filters';
+
+describe('GeoFilters', () => {
+  it('parses distances with units', () => {
+    expect(parseDistance('10km')).toEqual({ value: 10, unit: 'km' });
+    expect(parseDistance(' 2.5 mi ')).toEqual({ value: 2.5, unit: 'mi' });
+    ['10', '0km', '-1km', '10 miles', ''].forEach(distance => expect(parseDistance(distance)).toBeNull());
+    expect(getDistanceInMeters('2mi')).toBeCloseTo(3218.688);
+  });
+
+  it('reports incomplete and invalid geo values', () => {
+    const center = { lat: 48.85, lon: 2.35 };
+    expect(getGeoValueError('geo_distance', { center, distance: '10km' })).toBeNull();
+    expect(getGeoValueError('geo_distance', { center: { lat: 91, lon: 0 }, distance: '10km' })).not.toBeNull();
+    expect(getGeoValueError('geo_distance', '')).not.toBeNull();
+
+    expect(getGeoValueError('geo_bounding_box', { topLeft: { lat: 49, lon: 2 }, bottomRight: { lat: 48, lon: 3 } })).toBeNull();
+    expect(getGeoValueError('geo_bounding_box', { topLeft: { lat: 48, lon: 2 }, bottomRight: { lat: 49, lon: 3 } })).not.toBeNull();
+
+    expect(getGeoValueError('geo_polygon', { points: [center, center] })).not.toBeNull();
+  });
+
+  it('describes geo values for filter pills', () => {
+    expect(describeGeoValue('geo_distance', { center: { lat: 48.85, lon: 2.35 }, distance: '10km' }))
+      .toBe('within 10km of (48.8500, 2.3500)');
+    expect(describeGeoValue('geo_polygon', { points: [] })).toBe('-');
+  });
+
+  it('computes the bounding box of geotile_grid keys', () => {
+    const world = getGeoTileBounds('0/0/0')!;
+    expect(world.topLeft.lon).toBe(-180);
+    expect(world.bottomRight.lon).toBe(180);
+    expect(world.topLeft.lat).toBeCloseTo(85.0511);
+    expect(world.bottomRight.lat).toBeCloseTo(-85.0511);
+
+    const tile = getGeoTileBounds('1/1/0')!;
+    expect(tile.topLeft).toEqual({ lat: world.topLeft.lat, lon: 0 });
+    expect(tile.bottomRight).toEqual({ lat: 0, lon: 180 });
+
+    ['1/2/0', '1/0', 'a/b/c'].forEach(key => expect(getGeoTileBounds(key)).toBeNull());
+  });
+});
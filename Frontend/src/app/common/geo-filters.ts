@@ -0,0 +1,117 @@
+import { GeoBoundingBoxValue, GeoDistanceValue, GeoPoint, GeoPolygonValue } from '../filter.model';
+
+/**
+ * Geo filter helpers
+ * Validation and display of the values of the geo operators. The values are drawn with the
+ * map picker and compiled to geo_distance / geo_bounding_box / geo_shape queries.
+ */
+
+export const GEO_OPERATORS = ['geo_distance', 'geo_bounding_box', 'geo_polygon'];
+
+export const DISTANCE_UNITS = ['m', 'km', 'mi'];
+
+const METERS_PER_UNIT: { [unit: string]: number } = { m: 1, km: 1000, mi: 1609.344 };
+
+export function isGeoOperator(operator: string | undefined): boolean {
+  return GEO_OPERATORS.includes(operator || '');
+}
+
+export function isValidGeoPoint(point: any): point is GeoPoint {
+  return !!point &&
+    typeof point.lat === 'number' && typeof point.lon === 'number' &&
+    Math.abs(point.lat) <= 90 && Math.abs(point.lon) <= 180;
+}
+
+/**
+ * Parses a distance such as "10km", "2.5 mi" or "500m"
+ */
+export function parseDistance(distance: any): { value: number; unit: string } | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(m|km|mi)\s*$/.exec(String(distance ?? ''));
+  if (!match || parseFloat(match[1]) <= 0) {
+    return null;
+  }
+  return { value: parseFloat(match[1]), unit: match[2] };
+}
+
+export function getDistanceInMeters(distance: any): number | null {
+  const parsed = parseDistance(distance);
+  return parsed ? parsed.value * METERS_PER_UNIT[parsed.unit] : null;
+}
+
+/**
+ * Checks the value of a geo operator. Returns what is missing or wrong,
+ * or null when the value can be compiled.
+ */
+export function getGeoValueError(operator: string, value: any): string | null {
+  switch (operator) {
+    case 'geo_distance': {
+      const distanceValue = value as GeoDistanceValue;
+      if (!isValidGeoPoint(distanceValue?.center)) return 'Pick a center point on the map';
+      return parseDistance(distanceValue.distance) ? null : 'Enter a distance, e.g. 10km';
+    }
+
+    case 'geo_bounding_box': {
+      const box = value as GeoBoundingBoxValue;
+      if (!isValidGeoPoint(box?.topLeft) || !isValidGeoPoint(box?.bottomRight)) return 'Draw a box on the map';
+      return box.topLeft.lat > box.bottomRight.lat ? null : 'The top of the box must be north of its bottom';
+    }
+
+    case 'geo_polygon': {
+      const points = (value as GeoPolygonValue)?.points;
+      if (!Array.isArray(points) || points.length < 3 || !points.every(isValidGeoPoint)) {
+        return 'Draw a polygon with at least 3 points';
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+export function formatGeoPoint(point: GeoPoint): string {
+  return `(${point.lat.toFixed(4)}, ${point.lon.toFixed(4)})`;
+}
+
+/**
+ * Short description of a geo value for filter pills, e.g. "within 10km of (48.8566, 2.3522)"
+ */
+export function describeGeoValue(operator: string, value: any): string {
+  if (getGeoValueError(operator, value)) {
+    return '-';
+  }
+
+  switch (operator) {
+    case 'geo_distance':
+      return `within ${value.distance} of ${formatGeoPoint(value.center)}`;
+    case 'geo_bounding_box':
+      return `inside ${formatGeoPoint(value.topLeft)} to ${formatGeoPoint(value.bottomRight)}`;
+    case 'geo_polygon':
+      return `inside a polygon of ${value.points.length} points`;
+    default:
+      return '-';
+  }
+}
+
+/**
+ * Bounding box of a geotile_grid bucket key ("zoom/x/y", Web Mercator tiles)
+ */
+export function getGeoTileBounds(key: string): GeoBoundingBoxValue | null {
+  const parts = String(key).split('/').map(part => Number(part));
+  if (parts.length !== 3 || !parts.every(part => Number.isInteger(part) && part >= 0)) {
+    return null;
+  }
+
+  const [zoom, x, y] = parts;
+  const tiles = Math.pow(2, zoom);
+  if (x >= tiles || y >= tiles) {
+    return null;
+  }
+
+  const lon = (tileX: number) => tileX / tiles * 360 - 180;
+  const lat = (tileY: number) => Math.atan(Math.sinh(Math.PI * (1 - 2 * tileY / tiles))) * 180 / Math.PI;
+  return {
+    topLeft: { lat: lat(y), lon: lon(x) },
+    bottomRight: { lat: lat(y + 1), lon: lon(x + 1) }
+  };
+}
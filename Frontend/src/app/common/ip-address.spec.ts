@@ -0,0 +1,28 @@
+import { getIpv4SubnetPatterns, isValidIp, parseCidr } from './ip-address';
+
+describe('IpAddress', () => {
+  it('accepts IPv4 addresses', () => {
+    ['10.0.0.1', '0.0.0.0', '255.255.255.255'].forEach(ip => expect(isValidIp(ip)).toBe(true));
+    ['10.0.0', '10.0.0.256', '10.0.0.a', '10..0.1'].forEach(ip => expect(isValidIp(ip)).toBe(false));
+  });
+
+  it('accepts full, compressed and IPv4-suffixed IPv6 addresses', () => {
+    ['2001:db8:0:0:0:0:0:1', '2001:db8::1', '::', '::1', 'fe80::', '::ffff:10.0.0.1'].forEach(ip => expect(isValidIp(ip)).toBe(true));
+    ['2001:db8::1::2', '2001:db8:0:0:0:0:0:0:1', '2001:db8:0:0:0:0:1', 'g::1', '::ffff:10.0.0.300'].forEach(ip => expect(isValidIp(ip)).toBe(false));
+  });
+
+  it('parses CIDR notation', () => {
+    expect(parseCidr('10.0.0.0/8')).toEqual({ address: '10.0.0.0', prefixLength: 8, version: 4 });
+    expect(parseCidr('2001:db8::/32')).toEqual({ address: '2001:db8::', prefixLength: 32, version: 6 });
+    expect(parseCidr('10.0.0.1')).toEqual({ address: '10.0.0.1', prefixLength: 32, version: 4 });
+    ['10.0.0.0/33', '::/129', '10.0.0.0/', '10.0.0.0/8/8', '10.0.0/8'].forEach(cidr => expect(parseCidr(cidr)).toBeNull());
+  });
+
+  it('expands IPv4 subnets to text patterns', () => {
+    expect(getIpv4SubnetPatterns(parseCidr('0.0.0.0/0')!)).toEqual(['']);
+    expect(getIpv4SubnetPatterns(parseCidr('10.20.30.40/8')!)).toEqual(['10.']);
+    expect(getIpv4SubnetPatterns(parseCidr('10.0.0.0/15')!)).toEqual(['10.0.', '10.1.']);
+    expect(getIpv4SubnetPatterns(parseCidr('10.0.0.5/31')!)).toEqual(['10.0.0.4', '10.0.0.5']);
+    expect(getIpv4SubnetPatterns(parseCidr('10.0.0.5/32')!)).toEqual(['10.0.0.5']);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * IP address helpers
+ * Validation of the IPv4 and IPv6 addresses and the CIDR subnets typed into filters on IP fields.
+ */
+
+export function isValidIpv4(text: string): boolean {
+  const parts = text.split('.');
+  return parts.length === 4 && parts.every(part => /^\d{1,3}$/.test(part) && parseInt(part, 10) <= 255);
+}
+
+/**
+ * Full, "::" compressed and IPv4-suffixed ("::ffff:10.0.0.1") IPv6 addresses
+ */
+export function isValidIpv6(text: string): boolean {
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return false;
+  }
+
+  const groups = halves.map(half => half === '' ? [] : half.split(':'));
+  const all = [...groups[0], ...(groups[1] || [])];
+
+  // An embedded IPv4 address takes the last two groups
+  let groupCount = all.length;
+  const last = all[all.length - 1];
+  if (last !== undefined && last.includes('.')) {
+    if (!isValidIpv4(last)) return false;
+    all.pop();
+    groupCount++;
+  }
+
+  if (!all.every(group => /^[0-9a-fA-F]{1,4}$/.test(group))) {
+    return false;
+  }
+  return halves.length === 2 ? groupCount < 8 : groupCount === 8;
+}
+
+export function isValidIp(text: string): boolean {
+  const value = (text || '').trim();
+  return value.includes(':') ? isValidIpv6(value) : isValidIpv4(value);
+}
+
+/**
+ * A subnet in CIDR notation, e.g. 10.0.0.0/8 or 2001:db8::/32
+ */
+export interface Cidr {
+  address: string;
+  prefixLength: number;
+  version: 4 | 6;
+}
+
+/**
+ * Parses CIDR notation; a bare address is the subnet of that single address (/32 or /128)
+ */
+export function parseCidr(text: string): Cidr | null {
+  const parts = String(text ?? '').trim().split('/');
+  if (parts.length > 2) {
+    return null;
+  }
+
+  const address = parts[0];
+  const version = address.includes(':') ? 6 : 4;
+  if (!(version === 4 ? isValidIpv4(address) : isValidIpv6(address))) {
+    return null;
+  }
+
+  const maxLength = version === 4 ? 32 : 128;
+  if (parts.length === 1) {
+    return { address, prefixLength: maxLength, version };
+  }
+  if (!/^\d{1,3}$/.test(parts[1]) || parseInt(parts[1], 10) > maxLength) {
+    return null;
+  }
+  return { address, prefixLength: parseInt(parts[1], 10), version };
+}
+
+export function formatCidr(cidr: Cidr): string {
+  return `${cidr.address}/${cidr.prefixLength}`;
+}
+
+/**
+ * Text patterns matching the addresses of an IPv4 subnet as strings, for IPs mapped as keyword.
+ * Whole octets become prefixes ending with a dot ("10.0." for 10.0.0.0/16); a partly masked
+ * octet is expanded to one pattern per value it can take (10.0.16.0/20 gives "10.0.16." to
+ * "10.0.31."). Patterns without a trailing dot are complete addresses.
+ */
+export function getIpv4SubnetPatterns(cidr: Cidr): string[] {
+  const octets = cidr.address.split('.').map(octet => parseInt(octet, 10));
+  const wholeOctets = Math.floor(cidr.prefixLength / 8);
+  const maskedBits = cidr.prefixLength % 8;
+  const prefix = octets.slice(0, wholeOctets).map(octet => `${octet}.`).join('');
+
+  if (wholeOctets === 4) {
+    return [octets.join('.')];
+  }
+  if (maskedBits === 0) {
+    return [prefix];
+  }
+
+  const size = 1 << (8 - maskedBits);
+  const start = octets[wholeOctets] & (256 - size);
+  const suffix = wholeOctets < 3 ? '.' : '';
+  return Array.from({ length: size }, (_, i) => `${prefix}${start + i}${suffix}`);
+}
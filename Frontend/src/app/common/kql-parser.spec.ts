@@ -0,0 +1,100 @@
+import { compileKql, compileKqlQuery, KqlCompileError, KqlSyntaxError, parseKql } from './kql-parser';
+import { getBrowserTimeZone } from './time-range';
+
+describe('KqlParser', () => {
+  it('parses an empty query to null', () => {
+    expect(parseKql('   ')).toBeNull();
+    expect(compileKqlQuery('')).toBeNull();
+  });
+
+  it('compiles field values through the shared compiler', () => {
+    expect(compileKqlQuery('verb.keyword:GET')).toEqual({ term: { 'verb.keyword': 'GET' } });
+    expect(compileKqlQuery('response:404')).toEqual({ term: { response: 404 } });
+    expect(compileKqlQuery('message:login failed')).toEqual({ match: { message: 'login failed' } });
+  });
+
+  it('compiles quoted values on text fields as phrases', () => {
+    expect(compileKqlQuery('message:"login failed"')).toEqual({ match_phrase: { message: 'login failed' } });
+  });
+
+  it('compiles exists, wildcards and ranges', () => {
+    expect(compileKqlQuery('waf_src:*')).toEqual({ exists: { field: 'waf_src' } });
+    expect(compileKqlQuery('agent.keyword:*bot*')).toEqual({ wildcard: { 'agent.keyword': { value: '*bot*', case_insensitive: true } } });
+    expect(compileKqlQuery('bytes >= 1000')).toEqual({ range: { bytes: { gte: 1000 } } });
+    expect(compileKqlQuery('@timestamp < "2024-01-01"')).toEqual({ range: { '@timestamp': { lt: '2024-01-01' } } });
+  });
+
+  it('compiles free text to a multi_match query', () => {
+    expect(compileKqlQuery('timeout')).toEqual({ multi_match: { query: 'timeout', type: 'best_fields', lenient: true } });
+  });
+
+  it('gives AND precedence over OR', () => {
+    expect(compileKqlQuery('a.keyword:1 or b.keyword:2 and not c:*')).toEqual({
+      bool: {
+        should: [
+          { term: { 'a.keyword': '1' } },
+          {
+            bool: {
+              must: [
+                { term: { 'b.keyword': '2' } },
+                { bool: { must_not: [{ exists: { field: 'c' } }] } }
+              ]
+            }
+          }
+        ],
+        minimum_should_match: 1
+      }
+    });
+  });
+
+  it('expands value lists on a field', () => {
+    expect(compileKqlQuery('verb.keyword:(GET or POST)')).toEqual({
+      bool: { should: [{ term: { 'verb.keyword': 'GET' } }, { term: { 'verb.keyword': 'POST' } }], minimum_should_match: 1 }
+    });
+  });
+
+  it('treats escaped keywords and wildcards as plain text', () => {
+    expect(parseKql('request.keyword:\\and')).toEqual({ type: 'match', field: 'request.keyword', value: 'and', quoted: false, wildcard: false });
+    expect(compileKqlQuery('agent.keyword:bot\\*')).toEqual({ term: { 'agent.keyword': 'bot*' } });
+  });
+
+  it('reports syntax errors with their position', () => {
+    const cases: [string, number][] = [
+      ['verb.keyword:(GET or POST', 25],
+      ['verb.keyword:GET response:200', 17],
+      ['message:"unterminated', 8],
+      ['and verb.keyword:GET', 0],
+      ['bytes >', 7],
+      ['verb.keyword:""', 13],
+      ['a:1 and verb.keyword:""', 21],
+      ['a:1 or bytes >= ""', 16],
+      ['not verb.keyword:""', 17]
+    ];
+
+    cases.forEach(([query, position]) => {
+      let error: any;
+      try {
+        parseKql(query);
+      } catch (e) {
+        error = e;
+      }
+      expect(error instanceof KqlSyntaxError).toBe(true);
+      expect(error.position).toBe(position);
+    });
+  });
+
+  it('rejects conditions the compiler cannot build instead of leaving them out', () => {
+    const empty = { type: 'match' as const, field: 'verb.keyword', value: '', quoted: true, wildcard: false };
+    const response = { type: 'match' as const, field: 'response', value: '404', quoted: false, wildcard: false };
+
+    expect(() => compileKql({ type: 'or', children: [response, empty] })).toThrowError(KqlCompileError);
+    expect(() => compileKql({ type: 'and', children: [response, empty] })).toThrowError(KqlCompileError);
+    expect(() => compileKql({ type: 'not', child: empty })).toThrowError(KqlCompileError);
+  });
+
+  it('reads date bounds in the browser time zone', () => {
+    expect(compileKqlQuery('@timestamp < "2024-01-01"', { '@timestamp': 'date' })).toEqual({
+      range: { '@timestamp': { lt: '2024-01-01', format: 'strict_date_optional_time||epoch_millis', time_zone: getBrowserTimeZone() } }
+    });
+  });
+});
@@ -0,0 +1,413 @@
+import { combineClauses, compileCondition, isExactField, isKeywordField, QueryClause } from './query-dsl-compiler';
+import { FieldTypeMap, getFieldTypeFamily, isTextType } from './field-types';
+import { getBrowserTimeZone } from './time-range';
+
+/**
+ * KQL (Kibana Query Language) parser
+ * Parses the text typed in the dashboard query bar into an AST and compiles the AST
+ * to Query DSL through the shared Query DSL compiler.
+ *
+ * Supported syntax (same as Kibana's kuery grammar, without nested field queries):
+ *   free text          login failed
+ *   field value        verb.keyword:GET   message:"login failed"   agent:*bot*
+ *   value lists        verb.keyword:(GET or POST)
+ *   exists             waf_src:*
+ *   ranges             bytes >= 1000   @timestamp < "2024-01-01"
+ *   boolean logic      a:1 and (b:2 or not c:3)
+ */
+
+export type KqlRangeOperator = 'gt' | 'gte' | 'lt' | 'lte';
+
+export type KqlNode =
+  | { type: 'and'; children: KqlNode[] }
+  | { type: 'or'; children: KqlNode[] }
+  | { type: 'not'; child: KqlNode }
+  | { type: 'exists'; field: string }
+  | { type: 'match'; field: string | null; value: string; quoted: boolean; wildcard: boolean }
+  | { type: 'range'; field: string; operator: KqlRangeOperator; value: string };
+
+type KqlCondition = Extract<KqlNode, { type: 'exists' | 'match' | 'range' }>;
+
+/**
+ * Syntax error with the 0-based character offset where parsing failed
+ */
+export class KqlSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'KqlSyntaxError';
+    Object.setPrototypeOf(this, KqlSyntaxError.prototype);
+  }
+}
+
+/**
+ * Condition of a parsed query the Query DSL compiler can't build
+ */
+export class KqlCompileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KqlCompileError';
+    Object.setPrototypeOf(this, KqlCompileError.prototype);
+  }
+}
+
+type TokenType = 'lparen' | 'rparen' | 'colon' | 'range' | 'string' | 'literal' | 'and' | 'or' | 'not' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  // Literal value with unescaped "*" kept as wildcards and escaped "*" as "\*"
+  pattern?: string;
+  wildcard?: boolean;
+}
+
+const RANGE_OPERATORS: { [symbol: string]: KqlRangeOperator } = {
+  '<': 'lt',
+  '<=': 'lte',
+  '>': 'gt',
+  '>=': 'gte'
+};
+
+const SPECIAL_CHARACTERS = '\\():<>"*{}';
+const KEYWORDS: TokenType[] = ['and', 'or', 'not'];
+
+function isWhitespace(char: string): boolean {
+  return /\s/.test(char);
+}
+
+function describeToken(token: Token): string {
+  return token.type === 'eof' ? 'end of input' : `"${token.value}"`;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (isWhitespace(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ':') {
+      tokens.push({ type: 'colon', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '<' || char === '>') {
+      const symbol = text[i + 1] === '=' ? `${char}=` : char;
+      tokens.push({ type: 'range', value: symbol, position: i });
+      i += symbol.length;
+      continue;
+    }
+
+    if (char === '"') {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          i++;
+        }
+        value += text[i];
+        i++;
+      }
+      if (i >= text.length) {
+        throw new KqlSyntaxError('Unterminated quoted string', start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    if (char === '{' || char === '}') {
+      throw new KqlSyntaxError(`Nested field queries are not supported, found "${char}"`, i);
+    }
+
+    // Unquoted literal: runs until whitespace or a special character, "*" and escapes included
+    const start = i;
+    let value = '';
+    let pattern = '';
+    let wildcard = false;
+    while (i < text.length && !isWhitespace(text[i]) && (text[i] === '*' || text[i] === '\\' || !SPECIAL_CHARACTERS.includes(text[i]))) {
+      if (text[i] === '\\') {
+        if (i + 1 >= text.length) {
+          throw new KqlSyntaxError('Incomplete escape sequence', i);
+        }
+        const escaped = text[i + 1];
+        value += escaped;
+        pattern += escaped === '*' ? '\\*' : escaped;
+        i += 2;
+        continue;
+      }
+      if (text[i] === '*') {
+        wildcard = true;
+      }
+      value += text[i];
+      pattern += text[i];
+      i++;
+    }
+
+    // Escaped keywords (\and) are plain words
+    const keyword = KEYWORDS.find(type => type === value.toLowerCase());
+    if (keyword && value === text.substring(start, i)) {
+      tokens.push({ type: keyword, value, position: start });
+    } else {
+      tokens.push({ type: 'literal', value, position: start, pattern, wildcard });
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', position: text.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser over the token list:
+ *   or    := and ("or" and)*
+ *   and   := not ("and" not)*
+ *   not   := "not" not | sub
+ *   sub   := "(" or ")" | expression
+ */
+class KqlParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) { }
+
+  parse(): KqlNode | null {
+    if (this.peek().type === 'eof') {
+      return null;
+    }
+    const node = this.parseOr(null);
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw this.unexpected(next, 'AND, OR or end of input');
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private expect(type: TokenType, expected: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw this.unexpected(token, expected);
+    }
+    return this.next();
+  }
+
+  private unexpected(token: Token, expected: string): KqlSyntaxError {
+    return new KqlSyntaxError(`Expected ${expected} but ${describeToken(token)} found`, token.position);
+  }
+
+  /**
+   * The field is set while parsing a value list such as verb.keyword:(GET or POST)
+   */
+  private parseOr(field: string | null): KqlNode {
+    const children = [this.parseAnd(field)];
+    while (this.peek().type === 'or') {
+      this.next();
+      children.push(this.parseAnd(field));
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(field: string | null): KqlNode {
+    const children = [this.parseNot(field)];
+    while (this.peek().type === 'and') {
+      this.next();
+      children.push(this.parseNot(field));
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseNot(field: string | null): KqlNode {
+    if (this.peek().type === 'not') {
+      this.next();
+      return { type: 'not', child: this.parseNot(field) };
+    }
+    return this.parseSub(field);
+  }
+
+  private parseSub(field: string | null): KqlNode {
+    if (this.peek().type === 'lparen') {
+      this.next();
+      const node = this.parseOr(field);
+      this.expect('rparen', '")"');
+      return node;
+    }
+    return field === null ? this.parseExpression() : this.parseValue(field);
+  }
+
+  private parseExpression(): KqlNode {
+    const token = this.peek();
+    if (token.type !== 'literal' && token.type !== 'string') {
+      throw this.unexpected(token, 'a field name, a value or "("');
+    }
+
+    const following = this.tokens[this.index + 1];
+    if (token.type === 'literal' && following.type === 'colon') {
+      this.index += 2;
+      return this.parseFieldValue(token.value);
+    }
+    if (token.type === 'literal' && following.type === 'range') {
+      this.index += 2;
+      const valueToken = this.peek();
+      if ((valueToken.type !== 'literal' && valueToken.type !== 'string') || valueToken.value.trim() === '') {
+        throw this.unexpected(valueToken, 'a value');
+      }
+      this.next();
+      return { type: 'range', field: token.value, operator: RANGE_OPERATORS[following.value], value: valueToken.value };
+    }
+
+    return this.parseValue(null);
+  }
+
+  private parseFieldValue(field: string): KqlNode {
+    const token = this.peek();
+    if (token.type === 'lparen') {
+      this.next();
+      const node = this.parseOr(field);
+      this.expect('rparen', '")"');
+      return node;
+    }
+    if (token.type === 'literal' && token.value === '*' && token.wildcard) {
+      this.next();
+      return { type: 'exists', field };
+    }
+    return this.parseValue(field);
+  }
+
+  /**
+   * A value is a quoted string or a run of unquoted words, like Kibana's "message:login failed"
+   */
+  private parseValue(field: string | null): KqlNode {
+    const token = this.peek();
+    if (token.type === 'string') {
+      // An empty value matches nothing the user could mean
+      if (token.value === '') {
+        throw this.unexpected(token, 'a value');
+      }
+      this.next();
+      return { type: 'match', field, value: token.value, quoted: true, wildcard: false };
+    }
+    if (token.type !== 'literal') {
+      throw this.unexpected(token, 'a value');
+    }
+
+    const words: Token[] = [];
+    while (this.peek().type === 'literal') {
+      const following = this.tokens[this.index + 1];
+      if (words.length > 0 && (following.type === 'colon' || following.type === 'range')) {
+        // A new field expression without AND/OR in between
+        throw this.unexpected(this.peek(), 'AND, OR or end of input');
+      }
+      words.push(this.next());
+    }
+
+    const wildcard = words.some(word => word.wildcard);
+    return {
+      type: 'match',
+      field,
+      value: words.map(word => wildcard ? word.pattern : word.value).join(' '),
+      quoted: false,
+      wildcard
+    };
+  }
+}
+
+/**
+ * Parses a KQL query into an AST; an empty query parses to null.
+ * Throws a KqlSyntaxError with the position of the offending character.
+ */
+export function parseKql(query: string): KqlNode | null {
+  return new KqlParser(tokenize(query)).parse();
+}
+
+/**
+ * Compiles a KQL AST node into a query clause.
+ * Field conditions go through the shared compiler so KQL and the filter bar produce the same DSL.
+ * Throws a KqlCompileError for conditions the compiler can't build: leaving one out of an
+ * "or" group would narrow the results.
+ */
+export function compileKql(node: KqlNode, fieldTypes?: FieldTypeMap): QueryClause {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return combineClauses(node.children.map(child => compileKql(child, fieldTypes)), node.type === 'and' ? 'AND' : 'OR');
+
+    case 'not':
+      return { bool: { must_not: [compileKql(node.child, fieldTypes)] } };
+
+    default: {
+      const clause = compileKqlCondition(node, fieldTypes);
+      if (!clause) {
+        throw new KqlCompileError(`Can't build a query for the condition on ${node.field === null ? 'any field' : `"${node.field}"`}`);
+      }
+      return clause;
+    }
+  }
+}
+
+function compileKqlCondition(node: KqlCondition, fieldTypes?: FieldTypeMap): QueryClause | null {
+  switch (node.type) {
+    case 'exists':
+      return compileCondition({ field: node.field, operator: 'exists' });
+
+    case 'range': {
+      const isMin = node.operator === 'gt' || node.operator === 'gte';
+      return compileCondition({
+        field: node.field,
+        operator: 'range',
+        minOperator: isMin ? node.operator : undefined,
+        minValue: isMin ? node.value : '',
+        maxOperator: isMin ? undefined : node.operator,
+        maxValue: isMin ? '' : node.value,
+        // Date bounds are read in the browser time zone, like the time picker's
+        timeZone: getFieldTypeFamily(fieldTypes?.[node.field]) === 'date' ? getBrowserTimeZone() : undefined
+      }, fieldTypes);
+    }
+
+    case 'match':
+      if (node.field === null) {
+        if (node.wildcard) {
+          return { query_string: { query: node.value } };
+        }
+        return { multi_match: { query: node.value, type: node.quoted ? 'phrase' : 'best_fields', lenient: true } };
+      }
+      if (node.wildcard) {
+        return compileCondition({ field: node.field, operator: 'wildcard', value: node.value }, fieldTypes);
+      }
+      const isText = fieldTypes?.[node.field] ? isTextType(fieldTypes[node.field]) : !isKeywordField(node.field);
+      if (node.quoted && isText) {
+        return { match_phrase: { [node.field]: node.value } };
+      }
+      // Unquoted values on text fields match any of their terms, unlike the "is" phrase filter
+      if (!isExactField(node.field, node.value, fieldTypes)) {
+        return { match: { [node.field]: node.value } };
+      }
+      return compileCondition({ field: node.field, operator: 'is', value: node.value }, fieldTypes);
+  }
+}
+
+/**
+ * Parses and compiles a KQL query; an empty query compiles to null (no query)
+ */
+export function compileKqlQuery(query: string, fieldTypes?: FieldTypeMap): QueryClause | null {
+  const ast = parseKql(query);
+  return ast ? compileKql(ast, fieldTypes) : null;
+}
@@ -0,0 +1,446 @@
+import { Filter, FilterTree } from '../filter.model';
+import { QueryClause, QueryDSL } from './query-dsl-compiler';
+import { FieldTypeMap } from './field-types';
+
+/**
+ * Golden cases for the Query DSL compiler.
+ * Every operator offered by the filter bar has at least one case here; when the
+ * compiled output of an operator changes on purpose, update its expected value.
+ */
+
+export interface ConditionGoldenCase {
+  name: string;
+  filter: Filter;
+  fieldTypes?: FieldTypeMap; // Field catalog types; name heuristics apply without them
+  expected: QueryClause | null;
+}
+
+export interface TreeGoldenCase {
+  name: string;
+  tree: FilterTree;
+  expected: QueryDSL;
+}
+
+export const CONDITION_GOLDEN_CASES: ConditionGoldenCase[] = [
+  {
+    name: 'is on a keyword field',
+    filter: { field: 'verb.keyword', operator: 'is', value: 'GET' },
+    expected: { term: { 'verb.keyword': 'GET' } }
+  },
+  {
+    name: 'is on a text field',
+    filter: { field: 'message', operator: 'is', value: 'login failed' },
+    expected: { match_phrase: { message: 'login failed' } }
+  },
+  {
+    name: 'is with a numeric value',
+    filter: { field: 'response', operator: 'is', value: '404' },
+    expected: { term: { response: 404 } }
+  },
+  {
+    name: 'is keeps numeric strings on keyword fields',
+    filter: { field: 'response.keyword', operator: 'is', value: '404' },
+    expected: { term: { 'response.keyword': '404' } }
+  },
+  {
+    name: 'is on a date field',
+    filter: { field: '@timestamp', operator: 'is', value: '2024-01-01T00:00:00Z' },
+    expected: { term: { '@timestamp': '2024-01-01T00:00:00Z' } }
+  },
+  {
+    name: 'is_not on a keyword field',
+    filter: { field: 'waf_action.keyword', operator: 'is_not', value: 'pass' },
+    expected: { bool: { must_not: [{ term: { 'waf_action.keyword': 'pass' } }] } }
+  },
+  {
+    name: 'is_not on a text field',
+    filter: { field: 'agent', operator: 'is_not', value: 'curl' },
+    expected: { bool: { must_not: [{ match_phrase: { agent: 'curl' } }] } }
+  },
+  {
+    name: 'is_one_of with an array',
+    filter: { field: 'verb.keyword', operator: 'is_one_of', value: ['GET', 'POST'] },
+    expected: { terms: { 'verb.keyword': ['GET', 'POST'] } }
+  },
+  {
+    name: 'is_one_of with a comma separated string',
+    filter: { field: 'verb.keyword', operator: 'is_one_of', value: 'GET, POST' },
+    expected: { terms: { 'verb.keyword': ['GET', 'POST'] } }
+  },
+  {
+    name: 'is_one_of with values containing commas',
+    filter: { field: 'agent.keyword', operator: 'is_one_of', value: ['Mozilla/5.0 (KHTML, like Gecko)', 'curl/8.0'] },
+    expected: { terms: { 'agent.keyword': ['Mozilla/5.0 (KHTML, like Gecko)', 'curl/8.0'] } }
+  },
+  {
+    name: 'is_not_one_of',
+    filter: { field: 'response.keyword', operator: 'is_not_one_of', value: ['200', '304'] },
+    expected: { bool: { must_not: [{ terms: { 'response.keyword': ['200', '304'] } }] } }
+  },
+  {
+    name: 'exists',
+    filter: { field: 'waf_src', operator: 'exists' },
+    expected: { exists: { field: 'waf_src' } }
+  },
+  {
+    name: 'does_not_exist',
+    filter: { field: 'waf_src', operator: 'does_not_exist' },
+    expected: { bool: { must_not: [{ exists: { field: 'waf_src' } }] } }
+  },
+  {
+    name: 'range with both bounds',
+    filter: { field: 'bytes', operator: 'range', minOperator: 'gte', minValue: '100', maxOperator: 'lt', maxValue: '500' },
+    expected: { range: { bytes: { gte: 100, lt: 500 } } }
+  },
+  {
+    name: 'range with only a lower bound',
+    filter: { field: 'bytes', operator: 'range', minOperator: 'gt', minValue: '100', maxOperator: 'lt', maxValue: '' },
+    expected: { range: { bytes: { gt: 100 } } }
+  },
+  {
+    name: 'range without bounds is incomplete',
+    filter: { field: 'bytes', operator: 'range', minValue: '', maxValue: '' },
+    expected: null
+  },
+  {
+    name: 'range with a zero bound',
+    filter: { field: 'bytes', operator: 'range', minOperator: 'gte', minValue: 0, maxOperator: 'lt', maxValue: '' },
+    expected: { range: { bytes: { gte: 0 } } }
+  },
+  {
+    name: 'is_between',
+    filter: { field: 'bytes', operator: 'is_between', minValue: '0', maxValue: '1000' },
+    expected: { range: { bytes: { gte: 0, lt: 1000 } } }
+  },
+  {
+    name: 'is_not_between with only an upper bound',
+    filter: { field: 'bytes', operator: 'is_not_between', minValue: '', maxValue: '1000' },
+    expected: { bool: { must_not: [{ range: { bytes: { lt: 1000 } } }] } }
+  },
+  {
+    name: 'prefix on a keyword field',
+    filter: { field: 'request.keyword', operator: 'prefix', value: '/api' },
+    expected: { prefix: { 'request.keyword': '/api' } }
+  },
+  {
+    name: 'prefix on a text field',
+    filter: { field: 'request', operator: 'prefix', value: '/api' },
+    expected: { wildcard: { request: { value: '/api*', case_insensitive: true } } }
+  },
+  {
+    name: 'wildcard',
+    filter: { field: 'agent.keyword', operator: 'wildcard', value: '*bot*' },
+    expected: { wildcard: { 'agent.keyword': { value: '*bot*', case_insensitive: true } } }
+  },
+  {
+    name: 'query_string',
+    filter: { field: 'message', operator: 'query_string', value: 'error AND timeout' },
+    expected: { query_string: { default_field: 'message', query: 'error AND timeout' } }
+  },
+  {
+    name: 'legacy operator spelling',
+    filter: { field: 'waf_src', operator: 'notExists' },
+    expected: { bool: { must_not: [{ exists: { field: 'waf_src' } }] } }
+  },
+  {
+    name: 'is on a typed keyword field keeps numeric strings',
+    filter: { field: 'status', operator: 'is', value: '404' },
+    fieldTypes: { status: 'keyword' },
+    expected: { term: { status: '404' } }
+  },
+  {
+    name: 'is on a typed text field',
+    filter: { field: 'request_time', operator: 'is', value: 'slow' },
+    fieldTypes: { request_time: 'text' },
+    expected: { match_phrase: { request_time: 'slow' } }
+  },
+  {
+    name: 'is on a typed boolean field',
+    filter: { field: 'is_bot', operator: 'is', value: 'true' },
+    fieldTypes: { is_bot: 'boolean' },
+    expected: { term: { is_bot: true } }
+  },
+  {
+    name: 'is on a typed ip field',
+    filter: { field: 'clientip', operator: 'is', value: '10.0.0.1' },
+    fieldTypes: { clientip: 'ip' },
+    expected: { term: { clientip: '10.0.0.1' } }
+  },
+  {
+    name: 'range on a typed long field',
+    filter: { field: 'bytes', operator: 'range', minOperator: 'gte', minValue: '100', maxValue: '' },
+    fieldTypes: { bytes: 'long' },
+    expected: { range: { bytes: { gte: 100 } } }
+  },
+  {
+    name: 'is_between on a typed date field with date math',
+    filter: { field: '@timestamp', operator: 'is_between', minValue: 'now-1h', maxValue: '2024-05-01T12:00', timeZone: 'Europe/Paris' },
+    fieldTypes: { '@timestamp': 'date' },
+    expected: {
+      range: { '@timestamp': { gte: 'now-1h', lt: '2024-05-01T12:00', format: 'strict_date_optional_time||epoch_millis', time_zone: 'Europe/Paris' } }
+    }
+  },
+  {
+    name: 'is_between on a typed ip field',
+    filter: { field: 'clientip', operator: 'is_between', minValue: '10.0.0.0', maxValue: '10.0.0.255' },
+    fieldTypes: { clientip: 'ip' },
+    expected: { range: { clientip: { gte: '10.0.0.0', lt: '10.0.0.255' } } }
+  },
+  {
+    name: 'is_in_subnet on a typed ip field',
+    filter: { field: 'siem_sourceip', operator: 'is_in_subnet', value: ' 10.0.0.0/8 ' },
+    fieldTypes: { siem_sourceip: 'ip' },
+    expected: { term: { siem_sourceip: '10.0.0.0/8' } }
+  },
+  {
+    name: 'is_in_subnet with IPv6 on a typed ip field',
+    filter: { field: 'siem_dstip', operator: 'is_in_subnet', value: '2001:db8::/32' },
+    fieldTypes: { siem_dstip: 'ip' },
+    expected: { term: { siem_dstip: '2001:db8::/32' } }
+  },
+  {
+    name: 'is_in_subnet on a bare address',
+    filter: { field: 'clientip', operator: 'is_in_subnet', value: '10.0.0.1' },
+    fieldTypes: { clientip: 'ip' },
+    expected: { term: { clientip: '10.0.0.1/32' } }
+  },
+  {
+    name: 'is_in_subnet on whole octets of a keyword field',
+    filter: { field: 'waf_src', operator: 'is_in_subnet', value: '192.168.0.0/16' },
+    fieldTypes: { waf_src: 'keyword' },
+    expected: { prefix: { waf_src: '192.168.' } }
+  },
+  {
+    name: 'is_in_subnet on a partly masked octet of a keyword field',
+    filter: { field: 'waf_dst.keyword', operator: 'is_in_subnet', value: '10.1.6.0/22' },
+    expected: {
+      bool: {
+        should: [
+          { prefix: { 'waf_dst.keyword': '10.1.4.' } },
+          { prefix: { 'waf_dst.keyword': '10.1.5.' } },
+          { prefix: { 'waf_dst.keyword': '10.1.6.' } },
+          { prefix: { 'waf_dst.keyword': '10.1.7.' } }
+        ],
+        minimum_should_match: 1
+      }
+    }
+  },
+  {
+    name: 'is_in_subnet on the last octet of a keyword field',
+    filter: { field: 'waf_src', operator: 'is_in_subnet', value: '10.0.0.9/30' },
+    fieldTypes: { waf_src: 'keyword' },
+    expected: { terms: { waf_src: ['10.0.0.8', '10.0.0.9', '10.0.0.10', '10.0.0.11'] } }
+  },
+  {
+    name: 'is_in_subnet with IPv6 on a keyword field is incomplete',
+    filter: { field: 'waf_src', operator: 'is_in_subnet', value: '2001:db8::/32' },
+    fieldTypes: { waf_src: 'keyword' },
+    expected: null
+  },
+  {
+    name: 'is_in_subnet with invalid CIDR notation is incomplete',
+    filter: { field: 'clientip', operator: 'is_in_subnet', value: '10.0.0.0/33' },
+    fieldTypes: { clientip: 'ip' },
+    expected: null
+  },
+  {
+    name: 'geo_distance on a geo_point field',
+    filter: {
+      field: 'siem_sourceip_geoip.location',
+      operator: 'geo_distance',
+      value: { center: { lat: 48.8566, lon: 2.3522 }, distance: '25 km' }
+    },
+    expected: { geo_distance: { distance: '25km', 'siem_sourceip_geoip.location': { lat: 48.8566, lon: 2.3522 } } }
+  },
+  {
+    name: 'geo_distance without a center is incomplete',
+    filter: { field: 'siem_sourceip_geoip.location', operator: 'geo_distance', value: { distance: '25km' } },
+    expected: null
+  },
+  {
+    name: 'geo_bounding_box on a geo_point field',
+    filter: {
+      field: 'siem_sourceip_geoip.location',
+      operator: 'geo_bounding_box',
+      value: { topLeft: { lat: 51.1, lon: -5.2 }, bottomRight: { lat: 42.3, lon: 8.2 } }
+    },
+    expected: {
+      geo_bounding_box: {
+        'siem_sourceip_geoip.location': { top_left: { lat: 51.1, lon: -5.2 }, bottom_right: { lat: 42.3, lon: 8.2 } }
+      }
+    }
+  },
+  {
+    name: 'geo_polygon is a geo_shape query with a closed [lon, lat] ring',
+    filter: {
+      field: 'siem_sourceip_geoip.location',
+      operator: 'geo_polygon',
+      value: { points: [{ lat: 48, lon: 2 }, { lat: 48, lon: 3 }, { lat: 49, lon: 3 }] }
+    },
+    expected: {
+      geo_shape: {
+        'siem_sourceip_geoip.location': {
+          shape: { type: 'polygon', coordinates: [[[2, 48], [3, 48], [3, 49], [2, 48]]] },
+          relation: 'intersects'
+        }
+      }
+    }
+  },
+  {
+    name: 'prefix on a typed keyword field without the .keyword suffix',
+    filter: { field: 'url', operator: 'prefix', value: '/api' },
+    fieldTypes: { url: 'keyword' },
+    expected: { prefix: { url: '/api' } }
+  },
+  {
+    name: 'missing operator is incomplete',
+    filter: { field: 'waf_src', operator: '' },
+    expected: null
+  },
+  {
+    name: 'disabled condition is dropped',
+    filter: { field: 'verb.keyword', operator: 'is', value: 'GET', meta: { disabled: true } },
+    expected: null
+  },
+  {
+    name: 'negated condition',
+    filter: { field: 'verb.keyword', operator: 'is', value: 'GET', meta: { negate: true } },
+    expected: { bool: { must_not: [{ term: { 'verb.keyword': 'GET' } }] } }
+  },
+  {
+    name: 'negated is_not',
+    filter: { field: 'waf_action.keyword', operator: 'is_not', value: 'pass', meta: { negate: true } },
+    expected: { bool: { must_not: [{ bool: { must_not: [{ term: { 'waf_action.keyword': 'pass' } }] } }] } }
+  }
+];
+
+export const TREE_GOLDEN_CASES: TreeGoldenCase[] = [
+  {
+    name: 'empty tree',
+    tree: { id: 't1', root: null },
+    expected: { query: { match_all: {} } }
+  },
+  {
+    name: 'single condition',
+    tree: { id: 't2', root: { id: 'a', field: 'verb.keyword', operator: 'is', value: 'GET' } },
+    expected: { query: { term: { 'verb.keyword': 'GET' } } }
+  },
+  {
+    name: 'AND group',
+    tree: {
+      id: 't3',
+      root: {
+        id: 'g1',
+        operator: 'AND',
+        children: [
+          { id: 'a', field: 'verb.keyword', operator: 'is', value: 'GET' },
+          { id: 'b', field: 'waf_src', operator: 'exists' }
+        ]
+      }
+    },
+    expected: {
+      query: {
+        bool: {
+          must: [
+            { term: { 'verb.keyword': 'GET' } },
+            { exists: { field: 'waf_src' } }
+          ]
+        }
+      }
+    }
+  },
+  {
+    name: '(A OR B) AND (C OR NOT D)',
+    tree: {
+      id: 't4',
+      root: {
+        id: 'g1',
+        operator: 'AND',
+        children: [
+          {
+            id: 'g2',
+            operator: 'OR',
+            children: [
+              { id: 'a', field: 'verb.keyword', operator: 'is', value: 'GET' },
+              { id: 'b', field: 'verb.keyword', operator: 'is', value: 'POST' }
+            ]
+          },
+          {
+            id: 'g3',
+            operator: 'OR',
+            children: [
+              { id: 'c', field: 'response', operator: 'is', value: '500' },
+              { id: 'd', field: 'waf_action.keyword', operator: 'is_not', value: 'pass' }
+            ]
+          }
+        ]
+      }
+    },
+    expected: {
+      query: {
+        bool: {
+          must: [
+            {
+              bool: {
+                should: [
+                  { term: { 'verb.keyword': 'GET' } },
+                  { term: { 'verb.keyword': 'POST' } }
+                ],
+                minimum_should_match: 1
+              }
+            },
+            {
+              bool: {
+                should: [
+                  { term: { response: 500 } },
+                  { bool: { must_not: [{ term: { 'waf_action.keyword': 'pass' } }] } }
+                ],
+                minimum_should_match: 1
+              }
+            }
+          ]
+        }
+      }
+    }
+  },
+  {
+    name: 'incomplete conditions are dropped and single children unwrapped',
+    tree: {
+      id: 't5',
+      root: {
+        id: 'g1',
+        operator: 'OR',
+        children: [
+          { id: 'a', field: 'verb.keyword', operator: 'is', value: 'GET' },
+          { id: 'b', field: '', operator: '' }
+        ]
+      }
+    },
+    expected: { query: { term: { 'verb.keyword': 'GET' } } }
+  },
+  {
+    name: 'disabled conditions stay in the tree but not in the query',
+    tree: {
+      id: 't6',
+      root: {
+        id: 'g1',
+        operator: 'AND',
+        children: [
+          { id: 'a', field: 'verb.keyword', operator: 'is', value: 'GET' },
+          { id: 'b', field: 'response', operator: 'is', value: '500', meta: { disabled: true } },
+          { id: 'c', field: 'agent.keyword', operator: 'exists', meta: { negate: true } }
+        ]
+      }
+    },
+    expected: {
+      query: {
+        bool: {
+          must: [
+            { term: { 'verb.keyword': 'GET' } },
+            { bool: { must_not: [{ exists: { field: 'agent.keyword' } }] } }
+          ]
+        }
+      }
+    }
+  }
+];
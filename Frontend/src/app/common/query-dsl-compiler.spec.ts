@@ -0,0 +1,73 @@
+import { FilterTree } from '../filter.model';
+import { compileCondition, compileFilterTree, compileNodeContext } from './query-dsl-compiler';
+import { CONDITION_GOLDEN_CASES, TREE_GOLDEN_CASES } from './query-dsl-compiler.golden';
+
+describe('QueryDslCompiler', () => {
+  describe('compileCondition', () => {
+    CONDITION_GOLDEN_CASES.forEach(goldenCase => {
+      it(`compiles ${goldenCase.name}`, () => {
+        expect(compileCondition(goldenCase.filter, goldenCase.fieldTypes)).toEqual(goldenCase.expected);
+      });
+    });
+
+    it('covers every filter bar operator', () => {
+      const operators = ['is', 'is_not', 'is_one_of', 'is_not_one_of', 'exists', 'does_not_exist', 'is_between', 'is_not_between', 'is_in_subnet', 'geo_distance', 'geo_bounding_box', 'geo_polygon', 'range', 'prefix', 'wildcard', 'query_string'];
+      const covered = CONDITION_GOLDEN_CASES.map(goldenCase => goldenCase.filter.operator);
+      operators.forEach(operator => expect(covered).toContain(operator));
+    });
+
+    it('drops unknown operators', () => {
+      expect(compileCondition({ field: 'verb.keyword', operator: 'matches', value: 'GET' })).toBeNull();
+    });
+  });
+
+  describe('compileFilterTree', () => {
+    TREE_GOLDEN_CASES.forEach(goldenCase => {
+      it(`compiles ${goldenCase.name}`, () => {
+        expect(compileFilterTree(goldenCase.tree)).toEqual(goldenCase.expected);
+      });
+    });
+  });
+
+  describe('compileNodeContext', () => {
+    // verb is GET AND (status is 200 OR status is 404) AND extension is <being edited>
+    const tree: FilterTree = {
+      id: 'tree',
+      root: {
+        id: 'root',
+        operator: 'AND',
+        children: [
+          { id: 'verb', field: 'verb.keyword', operator: 'is', value: 'GET' },
+          {
+            id: 'or',
+            operator: 'OR',
+            children: [
+              { id: 'ok', field: 'status.keyword', operator: 'is', value: '200' },
+              { id: 'missing', field: 'status.keyword', operator: 'is', value: '404' }
+            ]
+          },
+          { id: 'extension', field: 'extension.keyword', operator: 'is', value: '' }
+        ]
+      }
+    };
+
+    it('includes the AND siblings and excludes the node itself', () => {
+      expect(compileNodeContext(tree.root, 'extension')).toEqual({
+        bool: {
+          must: [
+            { term: { 'verb.keyword': 'GET' } },
+            { bool: { should: [{ term: { 'status.keyword': '200' } }, { term: { 'status.keyword': '404' } }], minimum_should_match: 1 } }
+          ]
+        }
+      });
+    });
+
+    it('ignores alternatives in OR groups', () => {
+      expect(compileNodeContext(tree.root, 'ok')).toEqual({ term: { 'verb.keyword': 'GET' } });
+    });
+
+    it('matches everything for unknown nodes', () => {
+      expect(compileNodeContext(tree.root, 'unknown')).toEqual({ match_all: {} });
+    });
+  });
+});
@@ -0,0 +1,433 @@
+import { Filter, FilterNode, FilterTree, GeoPoint, isBooleanNode, isFilterCondition } from '../filter.model';
+import { FieldTypeMap, getFieldTypeFamily, isTextType } from './field-types';
+import { formatCidr, getIpv4SubnetPatterns, parseCidr } from './ip-address';
+import { getGeoValueError, parseDistance } from './geo-filters';
+
+/**
+ * Query DSL compiler
+ * Turns filter conditions and FilterNode trees into Elasticsearch bool queries.
+ * This is the only place filters are translated to Query DSL - the filter bar, the
+ * filter state service and the dashboard all go through it so they never disagree.
+ * Field types come from the data view's field catalog; fields missing from it fall back
+ * to name heuristics (".keyword" suffix, date-like names, numeric values).
+ */
+
+/**
+ * A single Elasticsearch query clause, e.g. { term: { 'verb.keyword': 'GET' } }
+ */
+export type QueryClause = { [queryType: string]: any };
+
+/**
+ * Request body fragment sent to the backend as FilterGroup.queryDSL
+ */
+export interface QueryDSL {
+  query: QueryClause;
+}
+
+export const MATCH_ALL: QueryClause = { match_all: {} };
+
+/**
+ * Operator of conditions holding a raw Query DSL clause the filter bar can't edit visually
+ */
+export const CUSTOM_DSL_OPERATOR = 'custom';
+
+/**
+ * Date format of absolute range bounds; date math ("now-1h") is accepted with any format
+ */
+export const RANGE_DATE_FORMAT = 'strict_date_optional_time||epoch_millis';
+
+/**
+ * Maps the various operator spellings (Kibana, legacy flat filters) to the standard format
+ */
+export function normalizeOperator(operator: string): string {
+  const operatorMap: { [key: string]: string } = {
+    'is': 'is',
+    'isNot': 'is_not',
+    'is_not': 'is_not',
+    'terms': 'is_one_of',
+    'is_one_of': 'is_one_of',
+    'notTerms': 'is_not_one_of',
+    'is_not_one_of': 'is_not_one_of',
+    'exists': 'exists',
+    'notExists': 'does_not_exist',
+    'does_not_exist': 'does_not_exist',
+    'range': 'range',
+    'between': 'is_between',
+    'is_between': 'is_between',
+    'notBetween': 'is_not_between',
+    'is_not_between': 'is_not_between',
+    'inSubnet': 'is_in_subnet',
+    'is_in_subnet': 'is_in_subnet',
+    'prefix': 'prefix',
+    'wildcard': 'wildcard',
+    'query_string': 'query_string',
+    'queryString': 'query_string'
+  };
+  return operatorMap[operator] || operator;
+}
+
+export function isKeywordField(field: string): boolean {
+  return field.endsWith('.keyword');
+}
+
+/**
+ * Date/timestamp fields are matched exactly with term queries
+ */
+export function isDateField(field: string): boolean {
+  return field === '@timestamp' ||
+         field.toLowerCase().includes('date') ||
+         field.toLowerCase().includes('time');
+}
+
+export function isNumericValue(value: any): boolean {
+  if (value === null || value === undefined || value === '') return false;
+  if (typeof value === 'number') return true;
+  if (typeof value === 'string') {
+    return /^-?\d+(\.\d+)?$/.test(value.trim());
+  }
+  return false;
+}
+
+/**
+ * Converts values to the field type: numbers for numeric fields, booleans for boolean fields.
+ * Without a known type numeric strings are converted, except on keyword fields which always hold strings.
+ */
+function convertValue(field: string, value: any, fieldTypes?: FieldTypeMap): any {
+  const family = getFieldTypeFamily(fieldTypes?.[field]);
+  if (family === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  if (family !== 'unknown' && family !== 'number') {
+    return value;
+  }
+  if ((family === 'unknown' && isKeywordField(field)) || !isNumericValue(value)) {
+    return value;
+  }
+  const numValue = typeof value === 'string' ? parseFloat(value.trim()) : value;
+  return isNaN(numValue) ? value : numValue;
+}
+
+/**
+ * Whether a field is matched with exact terms rather than analyzed with full-text queries
+ */
+export function isExactField(field: string, value: any, fieldTypes?: FieldTypeMap): boolean {
+  const esType = fieldTypes?.[field];
+  if (esType) {
+    return !isTextType(esType);
+  }
+  return isKeywordField(field) || isDateField(field) || isNumericValue(value);
+}
+
+/**
+ * Whether a range bound is set; 0 is a valid bound
+ */
+export function hasRangeBound(value: any): boolean {
+  return value !== undefined && value !== null && String(value).trim() !== '';
+}
+
+/**
+ * Builds a range clause from the set bounds. Date fields get the format of absolute dates
+ * and the time zone they were entered in.
+ */
+function buildRangeClause(filter: Filter, bounds: { [rangeOperator: string]: any }, fieldTypes?: FieldTypeMap): QueryClause | null {
+  const field = filter.field!;
+  const rangeQuery: { [key: string]: any } = {};
+  Object.keys(bounds)
+    .filter(rangeOperator => hasRangeBound(bounds[rangeOperator]))
+    .forEach(rangeOperator => rangeQuery[rangeOperator] = convertValue(field, bounds[rangeOperator], fieldTypes));
+
+  if (Object.keys(rangeQuery).length === 0) {
+    return null;
+  }
+
+  if (getFieldTypeFamily(fieldTypes?.[field]) === 'date') {
+    rangeQuery['format'] = RANGE_DATE_FORMAT;
+    if (filter.timeZone) {
+      rangeQuery['time_zone'] = filter.timeZone;
+    }
+  }
+  return { range: { [field]: rangeQuery } };
+}
+
+/**
+ * Whether IP addresses of a field are stored as strings (keyword) rather than as an ip field
+ */
+export function isKeywordIpField(field: string, fieldTypes?: FieldTypeMap): boolean {
+  const family = getFieldTypeFamily(fieldTypes?.[field]);
+  return family === 'string' || (family === 'unknown' && isKeywordField(field));
+}
+
+/**
+ * Builds the clause of "is in subnet". ip fields match CIDR notation natively with a term query.
+ * On keyword fields IPv4 subnets are matched as text, with prefixes of the subnet's octets;
+ * IPv6 addresses have several text forms ("::" compression, leading zeros) and can't be.
+ */
+function buildSubnetClause(field: string, value: any, fieldTypes?: FieldTypeMap): QueryClause | null {
+  const cidr = parseCidr(value);
+  if (!cidr) {
+    return null;
+  }
+
+  if (!isKeywordIpField(field, fieldTypes)) {
+    return { term: { [field]: formatCidr(cidr) } };
+  }
+  if (cidr.version === 6) {
+    return null;
+  }
+
+  const patterns = getIpv4SubnetPatterns(cidr);
+  if (patterns[0] === '') {
+    return { exists: { field } };
+  }
+  if (!patterns[0].endsWith('.')) {
+    return patterns.length === 1 ? { term: { [field]: patterns[0] } } : { terms: { [field]: patterns } };
+  }
+  return combineClauses(patterns.map(pattern => ({ prefix: { [field]: pattern } })), 'OR');
+}
+
+function toGeoPoint(point: GeoPoint): GeoPoint {
+  return { lat: point.lat, lon: point.lon };
+}
+
+/**
+ * Builds the clause of the geo operators; polygons are geo_shape queries with a GeoJSON polygon,
+ * whose ring is closed and in [lon, lat] order
+ */
+function buildGeoClause(field: string, operator: string, value: any): QueryClause | null {
+  if (getGeoValueError(operator, value)) {
+    return null;
+  }
+
+  switch (operator) {
+    case 'geo_distance': {
+      const distance = parseDistance(value.distance)!;
+      return { geo_distance: { distance: `${distance.value}${distance.unit}`, [field]: toGeoPoint(value.center) } };
+    }
+
+    case 'geo_bounding_box':
+      return {
+        geo_bounding_box: {
+          [field]: { top_left: toGeoPoint(value.topLeft), bottom_right: toGeoPoint(value.bottomRight) }
+        }
+      };
+
+    default: {
+      const points: GeoPoint[] = value.points;
+      const ring = [...points, points[0]].map(point => [point.lon, point.lat]);
+      return {
+        geo_shape: {
+          [field]: { shape: { type: 'polygon', coordinates: [ring] }, relation: 'intersects' }
+        }
+      };
+    }
+  }
+}
+
+function isMissingValue(value: any): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Gets the list of values of an "is one of" / "is not one of" condition.
+ * Lists are string[]; comma separated strings are still read from trees saved before that.
+ */
+export function getListValues(value: any): any[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  return typeof value === 'string' ? value.split(',').map(v => v.trim()).filter(v => v !== '') : [value];
+}
+
+/**
+ * Builds the exact-match clause of "is" / "is not":
+ * term for exact fields (keyword, date, numeric...), and like Kibana's phrase filter
+ * match_phrase for analyzed text, so "login failed" doesn't match every "login"
+ */
+function buildMatchClause(field: string, value: any, fieldTypes?: FieldTypeMap): QueryClause {
+  if (isExactField(field, value, fieldTypes)) {
+    return { term: { [field]: convertValue(field, value, fieldTypes) } };
+  }
+  return { match_phrase: { [field]: value } };
+}
+
+function mustNot(clause: QueryClause): QueryClause {
+  return { bool: { must_not: [clause] } };
+}
+
+/**
+ * Compiles a single filter condition.
+ * Returns null for disabled and incomplete conditions (no field, no operator or a missing
+ * required value) so callers can drop them. Negated conditions are wrapped in must_not.
+ */
+export function compileCondition(filter: Filter, fieldTypes?: FieldTypeMap): QueryClause | null {
+  if (filter.meta?.disabled) {
+    return null;
+  }
+  const clause = compileConditionClause(filter, fieldTypes);
+  return clause && filter.meta?.negate ? mustNot(clause) : clause;
+}
+
+function compileConditionClause(filter: Filter, fieldTypes?: FieldTypeMap): QueryClause | null {
+  // Custom DSL conditions carry their clause as-is
+  if (filter.operator === CUSTOM_DSL_OPERATOR) {
+    return filter.value && typeof filter.value === 'object' ? filter.value : null;
+  }
+
+  if (!filter.field || !filter.operator) {
+    return null;
+  }
+
+  const field = filter.field;
+  const value = filter.value;
+
+  switch (normalizeOperator(filter.operator)) {
+    case 'is':
+      if (isMissingValue(value)) return null;
+      return buildMatchClause(field, value, fieldTypes);
+
+    case 'is_not':
+      if (isMissingValue(value)) return null;
+      return mustNot(buildMatchClause(field, value, fieldTypes));
+
+    case 'is_one_of':
+      if (isMissingValue(value)) return null;
+      return { terms: { [field]: getListValues(value) } };
+
+    case 'is_not_one_of':
+      if (isMissingValue(value)) return null;
+      return mustNot({ terms: { [field]: getListValues(value) } });
+
+    case 'exists':
+      return { exists: { field } };
+
+    case 'does_not_exist':
+      return mustNot({ exists: { field } });
+
+    case 'range':
+      return buildRangeClause(filter, {
+        [filter.minOperator || 'gt']: filter.minValue,
+        [filter.maxOperator || 'lt']: filter.maxValue
+      }, fieldTypes);
+
+    // Like Kibana, "between" includes its lower bound and excludes its upper bound
+    case 'is_between':
+      return buildRangeClause(filter, { gte: filter.minValue, lt: filter.maxValue }, fieldTypes);
+
+    case 'is_not_between': {
+      const clause = buildRangeClause(filter, { gte: filter.minValue, lt: filter.maxValue }, fieldTypes);
+      return clause && mustNot(clause);
+    }
+
+    case 'is_in_subnet':
+      return buildSubnetClause(field, value, fieldTypes);
+
+    case 'geo_distance':
+    case 'geo_bounding_box':
+    case 'geo_polygon':
+      return buildGeoClause(field, normalizeOperator(filter.operator), value);
+
+    case 'prefix':
+      if (!value) return null;
+      // Keyword fields support prefix queries, analyzed text fields fall back to a wildcard
+      if (fieldTypes?.[field] ? !isTextType(fieldTypes[field]) : isKeywordField(field)) {
+        return { prefix: { [field]: value } };
+      }
+      return { wildcard: { [field]: { value: `${value}*`, case_insensitive: true } } };
+
+    case 'wildcard':
+      if (!value) return null;
+      return { wildcard: { [field]: { value, case_insensitive: true } } };
+
+    case 'query_string':
+      if (!value) return null;
+      return { query_string: { default_field: field, query: value } };
+
+    // Unknown operators are dropped like incomplete conditions
+    default:
+      return null;
+  }
+}
+
+function isMatchAll(clause: QueryClause): boolean {
+  return !!clause['match_all'] && Object.keys(clause).length === 1;
+}
+
+/**
+ * Combines clauses with AND (bool.must) or OR (bool.should).
+ * Empty lists match everything and single clauses are returned unwrapped.
+ */
+export function combineClauses(clauses: QueryClause[], operator: 'AND' | 'OR'): QueryClause {
+  const nonEmpty = clauses.filter(clause => !isMatchAll(clause));
+
+  if (nonEmpty.length === 0) {
+    return { ...MATCH_ALL };
+  }
+
+  if (nonEmpty.length === 1) {
+    return nonEmpty[0];
+  }
+
+  if (operator === 'OR') {
+    return { bool: { should: nonEmpty, minimum_should_match: 1 } };
+  }
+  return { bool: { must: nonEmpty } };
+}
+
+/**
+ * Compiles a filter node (condition or AND/OR group) into a query clause
+ */
+export function compileNode(node: FilterNode | null, fieldTypes?: FieldTypeMap): QueryClause {
+  if (!node) {
+    return { ...MATCH_ALL };
+  }
+
+  if (isFilterCondition(node)) {
+    return compileCondition(node, fieldTypes) || { ...MATCH_ALL };
+  }
+
+  if (isBooleanNode(node)) {
+    return combineClauses(node.children.map(child => compileNode(child, fieldTypes)), node.operator);
+  }
+
+  return { ...MATCH_ALL };
+}
+
+/**
+ * Compiles a whole filter tree into the { query } body sent to the backend
+ */
+export function compileFilterTree(tree: FilterTree | null, fieldTypes?: FieldTypeMap): QueryDSL {
+  return { query: compileNode(tree ? tree.root : null, fieldTypes) };
+}
+
+/**
+ * Compiles the context a condition is evaluated in: the clauses that must also match
+ * for the tree to match a document, i.e. the siblings in every AND group on the path
+ * from the root to the node. Siblings in OR groups are alternatives and don't narrow it.
+ * The node itself is excluded; used to scope value suggestions to the rest of the tree.
+ */
+export function compileNodeContext(root: FilterNode | null, nodeId: string, fieldTypes?: FieldTypeMap): QueryClause {
+  return combineClauses(collectContextClauses(root, nodeId, fieldTypes) || [], 'AND');
+}
+
+// Context clauses of the node below `node`, or null if it isn't in this subtree
+function collectContextClauses(node: FilterNode | null, nodeId: string, fieldTypes?: FieldTypeMap): QueryClause[] | null {
+  if (!node) return null;
+  if (node.id === nodeId) return [];
+  if (!isBooleanNode(node)) return null;
+
+  for (const child of node.children) {
+    const clauses = collectContextClauses(child, nodeId, fieldTypes);
+    if (clauses) {
+      if (node.operator === 'AND') {
+        node.children
+          .filter(sibling => sibling !== child)
+          .forEach(sibling => clauses.push(compileNode(sibling, fieldTypes)));
+      }
+      return clauses;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,113 @@
+import { FilterCondition, isBooleanNode, isFilterCondition } from '../filter.model';
+import { compileFilterTree, CUSTOM_DSL_OPERATOR } from './query-dsl-compiler';
+import { TREE_GOLDEN_CASES } from './query-dsl-compiler.golden';
+import { parseQueryDSL } from './query-dsl-parser';
+
+describe('QueryDslParser', () => {
+  TREE_GOLDEN_CASES.forEach(goldenCase => {
+    it(`round-trips ${goldenCase.name}`, () => {
+      const tree = parseQueryDSL(goldenCase.expected);
+      expect(compileFilterTree(tree)).toEqual(goldenCase.expected);
+    });
+  });
+
+  it('parses a bare query clause', () => {
+    const tree = parseQueryDSL({ exists: { field: 'waf_src' } });
+    expect(tree.root).toEqual(jasmine.objectContaining({ field: 'waf_src', operator: 'exists' }));
+  });
+
+  it('parses must_not clauses as negated conditions', () => {
+    const tree = parseQueryDSL({ query: { bool: { must_not: [{ terms: { 'verb.keyword': ['GET', 'POST'] } }] } } });
+    expect(tree.root).toEqual(jasmine.objectContaining({ field: 'verb.keyword', operator: 'is_not_one_of', value: ['GET', 'POST'] }));
+  });
+
+  it('parses bool.filter as an AND group', () => {
+    const tree = parseQueryDSL({
+      query: { bool: { filter: [{ exists: { field: 'waf_src' } }, { prefix: { 'request.keyword': '/api' } }] } }
+    });
+    expect(tree.root && isBooleanNode(tree.root) && tree.root.operator).toBe('AND');
+  });
+
+  it('parses gte/lt ranges as "is between" and keeps the date time zone', () => {
+    const clause = {
+      range: { '@timestamp': { gte: 'now-1h', lt: 'now', format: 'strict_date_optional_time||epoch_millis', time_zone: 'UTC' } }
+    };
+    const tree = parseQueryDSL({ query: { bool: { must_not: [clause] } } }, { '@timestamp': 'date' });
+
+    expect(tree.root).toEqual(jasmine.objectContaining({
+      field: '@timestamp', operator: 'is_not_between', minValue: 'now-1h', maxValue: 'now', timeZone: 'UTC'
+    }));
+  });
+
+  it('parses geo queries as geo conditions', () => {
+    const location = 'siem_sourceip_geoip.location';
+    const polygon = { geo_shape: { [location]: { shape: { type: 'polygon', coordinates: [[[2, 48], [3, 48], [3, 49], [2, 48]]] }, relation: 'intersects' } } };
+    const tree = parseQueryDSL({ query: { bool: { should: [
+      { geo_distance: { distance: '10km', [location]: { lat: 48.85, lon: 2.35 } } },
+      { geo_bounding_box: { [location]: { top_left: { lat: 49, lon: 2 }, bottom_right: { lat: 48, lon: 3 } } } },
+      polygon
+    ], minimum_should_match: 1 } } });
+
+    const children = (tree.root && isBooleanNode(tree.root) ? tree.root.children : []) as FilterCondition[];
+    expect(children.map(child => child.operator)).toEqual(['geo_distance', 'geo_bounding_box', 'geo_polygon']);
+    expect(children[0].value).toEqual({ center: { lat: 48.85, lon: 2.35 }, distance: '10km' });
+    expect(children[2].value).toEqual({ points: [{ lat: 48, lon: 2 }, { lat: 48, lon: 3 }, { lat: 49, lon: 3 }] });
+  });
+
+  it('keeps unsupported clauses as custom DSL conditions', () => {
+    const regexpClause = { regexp: { 'user_agent.keyword': 'Mozilla.*' } };
+    const dsl = { query: { bool: { must: [{ exists: { field: 'waf_src' } }, regexpClause] } } };
+    const tree = parseQueryDSL(dsl);
+
+    const children = tree.root && isBooleanNode(tree.root) ? tree.root.children : [];
+    const custom = children.find(child => isFilterCondition(child) && child.operator === CUSTOM_DSL_OPERATOR) as FilterCondition;
+    expect(custom.value).toEqual(regexpClause);
+    expect(compileFilterTree(tree)).toEqual({ query: { bool: { must: [{ exists: { field: 'waf_src' } }, regexpClause] } } });
+  });
+
+  it('parses date ranges written without the date format', () => {
+    const tree = parseQueryDSL({ query: { range: { '@timestamp': { gte: 'now-1d', lt: 'now' } } } }, { '@timestamp': 'date' });
+    expect(tree.root).toEqual(jasmine.objectContaining({ field: '@timestamp', operator: 'is_between', minValue: 'now-1d', maxValue: 'now' }));
+  });
+
+  it('parses match_phrase on text fields as "is"', () => {
+    const tree = parseQueryDSL({ query: { match_phrase: { message: 'login failed' } } }, { message: 'text' });
+    expect(tree.root).toEqual(jasmine.objectContaining({ field: 'message', operator: 'is', value: 'login failed' }));
+  });
+
+  it('keeps match on text fields as custom DSL', () => {
+    const clause = { match: { message: 'login failed' } };
+    const tree = parseQueryDSL({ query: clause }, { message: 'text' });
+    expect(tree.root).toEqual(jasmine.objectContaining({ operator: CUSTOM_DSL_OPERATOR, value: clause }));
+  });
+
+  it('keeps OR groups with a clause matching everything as custom DSL', () => {
+    const should = [{ term: { 'verb.keyword': 'GET' } }, { match_all: {} }];
+    const dsl = { query: { bool: { must: [{ exists: { field: 'waf_src' } }], should, minimum_should_match: 1 } } };
+    const tree = parseQueryDSL(dsl);
+
+    const children = tree.root && isBooleanNode(tree.root) ? tree.root.children : [];
+    expect(children[0]).toEqual(jasmine.objectContaining({ field: 'waf_src', operator: 'exists' }));
+    expect(children[1]).toEqual(jasmine.objectContaining({ operator: CUSTOM_DSL_OPERATOR, value: { bool: { should, minimum_should_match: 1 } } }));
+  });
+
+  it('keeps leaf clauses that would not compile back identically as custom DSL', () => {
+    const clause = { range: { '@timestamp': { gte: 'now-1d', format: 'strict_date_optional_time' } } };
+    const tree = parseQueryDSL({ query: clause });
+    expect(tree.root).toEqual(jasmine.objectContaining({ operator: CUSTOM_DSL_OPERATOR, value: clause }));
+  });
+
+  it('keeps bool queries with scoring-only should clauses as custom DSL', () => {
+    const clause = { bool: { must: [{ exists: { field: 'waf_src' } }], should: [{ term: { 'verb.keyword': 'GET' } }] } };
+    const tree = parseQueryDSL({ query: clause });
+    expect(tree.root).toEqual(jasmine.objectContaining({ operator: CUSTOM_DSL_OPERATOR, value: clause }));
+  });
+
+  it('parses match_all to an empty tree', () => {
+    expect(parseQueryDSL({ query: { match_all: {} } }).root).toBeNull();
+  });
+
+  it('rejects non-object input', () => {
+    expect(() => parseQueryDSL('term')).toThrowError('Query DSL must be a JSON object');
+  });
+});
@@ -0,0 +1,319 @@
+import { FilterCondition, FilterNode, FilterTree, isFilterCondition } from '../filter.model';
+import { compileCondition, CUSTOM_DSL_OPERATOR, QueryClause, RANGE_DATE_FORMAT } from './query-dsl-compiler';
+import { FieldTypeMap } from './field-types';
+
+/**
+ * Query DSL parser
+ * The inverse of the Query DSL compiler: turns bool/term/terms/range/exists/prefix/wildcard/
+ * query_string/match/match_phrase and geo queries back into an editable FilterTree.
+ * Every clause that can't be represented exactly by a filter condition is kept as an opaque
+ * custom DSL condition, so parsing never drops part of the query.
+ */
+
+/**
+ * Operators that have a negated counterpart in the filter bar
+ */
+const NEGATED_OPERATORS: { [operator: string]: string } = {
+  'is': 'is_not',
+  'is_one_of': 'is_not_one_of',
+  'exists': 'does_not_exist',
+  'is_between': 'is_not_between'
+};
+
+function generateId(): string {
+  return `filter_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function deepEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Drops the date format the compiler adds to ranges, so date ranges written without it
+ * still round-trip; other formats are kept and don't compile back
+ */
+function withoutRangeFormat(clause: QueryClause | null): QueryClause | null {
+  const negated = clause?.['bool']?.must_not;
+  if (Array.isArray(negated) && negated.length === 1) {
+    return { bool: { must_not: [withoutRangeFormat(negated[0])] } };
+  }
+
+  const body = clause?.['range'];
+  const field = isPlainObject(body) && Object.keys(body).length === 1 ? Object.keys(body)[0] : null;
+  if (!field || !isPlainObject(body[field]) || body[field].format !== RANGE_DATE_FORMAT) {
+    return clause;
+  }
+  const { format, ...bounds } = body[field];
+  return { range: { [field]: bounds } };
+}
+
+/**
+ * Whether a condition compiles back to the clause it was parsed from
+ */
+function compilesTo(condition: FilterCondition, clause: QueryClause, fieldTypes?: FieldTypeMap): boolean {
+  return deepEqual(withoutRangeFormat(compileCondition(condition, fieldTypes)), withoutRangeFormat(clause));
+}
+
+/**
+ * Wraps a clause the filter bar can't edit
+ */
+function customCondition(clause: QueryClause): FilterCondition {
+  return {
+    id: generateId(),
+    field: '',
+    operator: CUSTOM_DSL_OPERATOR,
+    value: clause
+  };
+}
+
+/**
+ * Reads a single-field query body such as { "verb.keyword": "GET" } or { "verb.keyword": { "value": "GET" } }
+ */
+function readFieldValue(body: any, valueKey: string): { field: string; value: any; options: { [key: string]: any } } | null {
+  if (!isPlainObject(body) || Object.keys(body).length !== 1) {
+    return null;
+  }
+
+  const field = Object.keys(body)[0];
+  const raw = body[field];
+  if (isPlainObject(raw)) {
+    const { [valueKey]: value, ...options } = raw;
+    return value === undefined ? null : { field, value, options };
+  }
+  return { field, value: raw, options: {} };
+}
+
+/**
+ * Maps a leaf query clause to a filter condition, without checking that it round-trips
+ */
+function mapLeafClause(clause: QueryClause): Partial<FilterCondition> | null {
+  const queryType = Object.keys(clause)[0];
+  const body = clause[queryType];
+
+  switch (queryType) {
+    case 'term':
+    case 'match':
+    case 'match_phrase': {
+      const parsed = readFieldValue(body, queryType === 'term' ? 'value' : 'query');
+      return parsed ? { field: parsed.field, operator: 'is', value: parsed.value } : null;
+    }
+
+    case 'terms': {
+      const fields = isPlainObject(body) ? Object.keys(body) : [];
+      if (fields.length !== 1 || !Array.isArray(body[fields[0]])) return null;
+      return { field: fields[0], operator: 'is_one_of', value: body[fields[0]] };
+    }
+
+    case 'exists':
+      return isPlainObject(body) && body.field ? { field: body.field, operator: 'exists' } : null;
+
+    case 'range': {
+      const fields = isPlainObject(body) ? Object.keys(body) : [];
+      if (fields.length !== 1 || !isPlainObject(body[fields[0]])) return null;
+      const bounds = body[fields[0]];
+      const minOperator = ['gt', 'gte'].find(op => bounds[op] !== undefined);
+      const maxOperator = ['lt', 'lte'].find(op => bounds[op] !== undefined);
+      const timeZone = bounds.time_zone !== undefined ? { timeZone: bounds.time_zone } : {};
+
+      // gte/lt bounds are what "is between" compiles to
+      if ((!minOperator || minOperator === 'gte') && (!maxOperator || maxOperator === 'lt')) {
+        return {
+          field: fields[0],
+          operator: 'is_between',
+          minValue: minOperator ? bounds[minOperator] : '',
+          maxValue: maxOperator ? bounds[maxOperator] : '',
+          ...timeZone
+        };
+      }
+      return {
+        field: fields[0],
+        operator: 'range',
+        minOperator: minOperator || 'gt',
+        minValue: minOperator ? bounds[minOperator] : '',
+        maxOperator: maxOperator || 'lt',
+        maxValue: maxOperator ? bounds[maxOperator] : '',
+        ...timeZone
+      };
+    }
+
+    case 'prefix': {
+      const parsed = readFieldValue(body, 'value');
+      return parsed ? { field: parsed.field, operator: 'prefix', value: parsed.value } : null;
+    }
+
+    case 'wildcard': {
+      const parsed = readFieldValue(body, 'value');
+      return parsed ? { field: parsed.field, operator: 'wildcard', value: parsed.value } : null;
+    }
+
+    case 'geo_distance': {
+      const fields = isPlainObject(body) ? Object.keys(body).filter(key => key !== 'distance') : [];
+      if (fields.length !== 1 || !isPlainObject(body[fields[0]])) return null;
+      return { field: fields[0], operator: 'geo_distance', value: { center: body[fields[0]], distance: body.distance } };
+    }
+
+    case 'geo_bounding_box': {
+      const fields = isPlainObject(body) ? Object.keys(body) : [];
+      if (fields.length !== 1 || !isPlainObject(body[fields[0]])) return null;
+      const box = body[fields[0]];
+      return { field: fields[0], operator: 'geo_bounding_box', value: { topLeft: box.top_left, bottomRight: box.bottom_right } };
+    }
+
+    // Polygons drawn with the map picker
+    case 'geo_shape': {
+      const fields = isPlainObject(body) ? Object.keys(body) : [];
+      const shape = fields.length === 1 && isPlainObject(body[fields[0]]) ? body[fields[0]].shape : null;
+      if (!isPlainObject(shape) || shape.type !== 'polygon' || !Array.isArray(shape.coordinates?.[0])) return null;
+      const ring: any[] = shape.coordinates[0];
+      const points = ring.slice(0, -1).map(coordinates => ({ lat: coordinates?.[1], lon: coordinates?.[0] }));
+      return { field: fields[0], operator: 'geo_polygon', value: { points } };
+    }
+
+    case 'query_string':
+      if (!isPlainObject(body) || !body.default_field || !body.query) return null;
+      return { field: body.default_field, operator: 'query_string', value: body.query };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses a leaf clause into a condition.
+ * The condition is only used when compiling it gives back exactly the same clause.
+ */
+function parseLeaf(clause: QueryClause, fieldTypes?: FieldTypeMap): FilterCondition {
+  const mapped = mapLeafClause(clause);
+  if (mapped) {
+    const condition: FilterCondition = { id: generateId(), ...mapped };
+    if (compilesTo(condition, clause, fieldTypes)) {
+      return condition;
+    }
+  }
+  return customCondition(clause);
+}
+
+/**
+ * Parses a must_not clause into a negated condition
+ */
+function parseNegated(clause: QueryClause, fieldTypes?: FieldTypeMap): FilterNode {
+  const negatedClause = { bool: { must_not: [clause] } };
+  const mapped = mapLeafClause(clause);
+  const negatedOperator = mapped && mapped.operator ? NEGATED_OPERATORS[mapped.operator] : undefined;
+
+  if (mapped && negatedOperator) {
+    const condition: FilterCondition = { id: generateId(), ...mapped, operator: negatedOperator };
+    if (compilesTo(condition, negatedClause, fieldTypes)) {
+      return condition;
+    }
+  }
+  return customCondition(negatedClause);
+}
+
+function asArray(value: any): QueryClause[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Groups child nodes under an AND/OR node, unwrapping single children
+ */
+function group(operator: 'AND' | 'OR', children: FilterNode[]): FilterNode | null {
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { id: generateId(), operator, children };
+}
+
+/**
+ * Parses a bool query.
+ * must/filter become AND, should becomes OR and must_not clauses become negated conditions.
+ * A should clause matching everything makes the whole OR match everything, which the
+ * compiler would drop as an empty condition, so such an OR is kept as custom DSL.
+ * Bool options the tree can't express (boost, minimum_should_match other than 1, optional
+ * should clauses next to must) keep the whole bool query as custom DSL.
+ */
+function parseBool(clause: QueryClause, fieldTypes?: FieldTypeMap): FilterNode | null {
+  const body = clause['bool'];
+  if (!isPlainObject(body)) {
+    return customCondition(clause);
+  }
+
+  const supportedKeys = ['must', 'filter', 'should', 'must_not', 'minimum_should_match'];
+  if (Object.keys(body).some(key => !supportedKeys.includes(key))) {
+    return customCondition(clause);
+  }
+
+  const required = [...asArray(body.must), ...asArray(body.filter)];
+  const should = asArray(body.should);
+  const mustNot = asArray(body.must_not);
+  const minimumShouldMatch = body.minimum_should_match;
+
+  // Without minimum_should_match, should clauses next to must/filter only affect scoring
+  const shouldIsRequired = minimumShouldMatch === 1 || minimumShouldMatch === '1' ||
+    (minimumShouldMatch === undefined && required.length === 0 && mustNot.length === 0);
+  if (should.length > 0 && !shouldIsRequired) {
+    return customCondition(clause);
+  }
+
+  const children: FilterNode[] = [
+    ...required.map(child => parseClause(child, fieldTypes)).filter((node): node is FilterNode => node !== null),
+    ...mustNot.map(child => parseNegated(child, fieldTypes))
+  ];
+
+  const shouldNodes = should.map(child => parseClause(child, fieldTypes));
+  const shouldNode = shouldNodes.includes(null)
+    ? customCondition({ bool: { should, minimum_should_match: 1 } })
+    : group('OR', shouldNodes as FilterNode[]);
+  if (shouldNode) {
+    children.push(shouldNode);
+  }
+
+  return group('AND', children);
+}
+
+/**
+ * Parses any query clause into a filter node; match_all parses to null (no filter)
+ */
+export function parseClause(clause: QueryClause, fieldTypes?: FieldTypeMap): FilterNode | null {
+  if (!isPlainObject(clause) || Object.keys(clause).length !== 1) {
+    return customCondition(clause);
+  }
+
+  if (clause['match_all']) {
+    return null;
+  }
+
+  if (clause['bool']) {
+    return parseBool(clause, fieldTypes);
+  }
+
+  return parseLeaf(clause, fieldTypes);
+}
+
+/**
+ * Parses Query DSL ({ query: {...} } or a bare query clause) into a filter tree
+ * that FilterStateService.setFilterTree can load.
+ * Field types must be the ones the tree will be compiled with, so conditions round-trip.
+ */
+export function parseQueryDSL(dsl: any, fieldTypes?: FieldTypeMap): FilterTree {
+  if (!isPlainObject(dsl)) {
+    throw new Error('Query DSL must be a JSON object');
+  }
+
+  const clause = dsl.query !== undefined ? dsl.query : dsl;
+  return {
+    id: generateId(),
+    root: parseClause(clause, fieldTypes)
+  };
+}
+
+/**
+ * Checks whether a condition is an opaque custom DSL clause
+ */
+export function isCustomDslCondition(node: FilterNode): boolean {
+  return isFilterCondition(node) && node.operator === CUSTOM_DSL_OPERATOR;
+}
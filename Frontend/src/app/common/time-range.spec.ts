@@ -0,0 +1,49 @@
+import { getAutoInterval, getBrowserTimeZone, getTimeRangeLabel, isValidTimeRange, parseDateMath, toTimeRangeRequest } from './time-range';
+
+describe('TimeRange', () => {
+  const now = new Date(2024, 4, 15, 13, 45, 30, 500); // Wednesday 15 May 2024
+
+  it('resolves relative expressions', () => {
+    expect(parseDateMath('now', false, now)).toEqual(now);
+    expect(parseDateMath('now-15m', false, now)).toEqual(new Date(2024, 4, 15, 13, 30, 30, 500));
+    expect(parseDateMath('now-1M', false, now)).toEqual(new Date(2024, 3, 15, 13, 45, 30, 500));
+  });
+
+  it('rounds down for from bounds and up for to bounds', () => {
+    expect(parseDateMath('now-7d/d', false, now)).toEqual(new Date(2024, 4, 8, 0, 0, 0, 0));
+    expect(parseDateMath('now/d', true, now)).toEqual(new Date(2024, 4, 15, 23, 59, 59, 999));
+    expect(parseDateMath('now/w', false, now)).toEqual(new Date(2024, 4, 13, 0, 0, 0, 0));
+  });
+
+  it('resolves absolute dates with date math', () => {
+    expect(parseDateMath('2024-01-31T00:00:00||+1d', false, now)).toEqual(new Date(2024, 1, 1, 0, 0, 0, 0));
+    expect(parseDateMath('1700000000000', false, now)).toEqual(new Date(1700000000000));
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(parseDateMath('', false, now)).toBeNull();
+    expect(parseDateMath('now-7x', false, now)).toBeNull();
+    expect(parseDateMath('yesterday', false, now)).toBeNull();
+  });
+
+  it('validates that from is not after to', () => {
+    expect(isValidTimeRange({ from: 'now-7d/d', to: 'now' })).toBe(true);
+    expect(isValidTimeRange({ from: 'now', to: 'now-1d' })).toBe(false);
+  });
+
+  it('labels quick ranges', () => {
+    expect(getTimeRangeLabel({ from: 'now-15m', to: 'now' })).toBe('Last 15 minutes');
+    expect(getTimeRangeLabel({ from: 'now-2d', to: 'now' })).toBe('now-2d → now');
+  });
+
+  it('picks the histogram interval from the range duration', () => {
+    const end = new Date(2024, 4, 15);
+    expect(getAutoInterval(new Date(end.getTime() - 15 * 60 * 1000), end).interval).toBe('30s');
+    expect(getAutoInterval(new Date(end.getTime() - 24 * 60 * 60 * 1000), end).interval).toBe('30m');
+    expect(getAutoInterval(new Date(2014, 0, 1), end).interval).toBe('30d');
+  });
+
+  it('sends the browser time zone with the time range', () => {
+    expect(toTimeRangeRequest({ from: 'now/d', to: 'now/d' })).toEqual({ from: 'now/d', to: 'now/d', timeZone: getBrowserTimeZone() });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Time range helpers
+ * Time ranges are kept as Elasticsearch date math strings ("now-15m", "now-7d/d" or ISO dates)
+ * and resolved server-side against the index's time field. The helpers below resolve them in
+ * the browser for validation and display only.
+ */
+
+export interface TimeRange {
+  from: string;
+  to: string;
+}
+
+export interface QuickRange extends TimeRange {
+  label: string;
+}
+
+export const DEFAULT_TIME_RANGE: TimeRange = { from: 'now-15m', to: 'now' };
+
+export const QUICK_RANGES: QuickRange[] = [
+  { label: 'Today', from: 'now/d', to: 'now/d' },
+  { label: 'This week', from: 'now/w', to: 'now/w' },
+  { label: 'Last 15 minutes', from: 'now-15m', to: 'now' },
+  { label: 'Last 30 minutes', from: 'now-30m', to: 'now' },
+  { label: 'Last 1 hour', from: 'now-1h', to: 'now' },
+  { label: 'Last 24 hours', from: 'now-24h', to: 'now' },
+  { label: 'Last 7 days', from: 'now-7d', to: 'now' },
+  { label: 'Last 30 days', from: 'now-30d', to: 'now' },
+  { label: 'Last 90 days', from: 'now-90d', to: 'now' },
+  { label: 'Last 1 year', from: 'now-1y', to: 'now' }
+];
+
+const UNIT_MS: { [unit: string]: number } = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+const DATE_MATH_UNITS = 'yMwdhHms';
+
+/**
+ * Adds (or subtracts) an amount of a date math unit; months and years follow the calendar
+ */
+function addUnit(date: Date, amount: number, unit: string): Date {
+  const result = new Date(date.getTime());
+  if (unit === 'y') {
+    result.setFullYear(result.getFullYear() + amount);
+  } else if (unit === 'M') {
+    result.setMonth(result.getMonth() + amount);
+  } else {
+    result.setTime(result.getTime() + amount * UNIT_MS[unit === 'H' ? 'h' : unit]);
+  }
+  return result;
+}
+
+/**
+ * Rounds a date down to the start of a unit, or up to its last millisecond
+ */
+function roundToUnit(date: Date, unit: string, roundUp: boolean): Date {
+  const result = new Date(date.getTime());
+  switch (unit) {
+    case 'y':
+      result.setMonth(0, 1);
+      result.setHours(0, 0, 0, 0);
+      break;
+    case 'M':
+      result.setDate(1);
+      result.setHours(0, 0, 0, 0);
+      break;
+    case 'w':
+      // Weeks start on Monday, like Elasticsearch
+      result.setDate(result.getDate() - ((result.getDay() + 6) % 7));
+      result.setHours(0, 0, 0, 0);
+      break;
+    case 'd':
+      result.setHours(0, 0, 0, 0);
+      break;
+    case 'h':
+    case 'H':
+      result.setMinutes(0, 0, 0);
+      break;
+    case 'm':
+      result.setSeconds(0, 0);
+      break;
+    case 's':
+      result.setMilliseconds(0);
+      break;
+  }
+
+  if (roundUp) {
+    return new Date(addUnit(result, 1, unit).getTime() - 1);
+  }
+  return result;
+}
+
+/**
+ * Resolves a date math expression ("now-7d/d", "2024-01-01||+1M", ISO date or epoch millis).
+ * "to" bounds round up, like Elasticsearch does for lte. Returns null for invalid expressions.
+ */
+export function parseDateMath(expression: string, roundUp: boolean = false, now: Date = new Date()): Date | null {
+  const text = (expression || '').trim();
+  if (!text) {
+    return null;
+  }
+
+  let base: Date;
+  let math: string;
+  if (text.startsWith('now')) {
+    base = new Date(now.getTime());
+    math = text.substring(3);
+  } else {
+    const separator = text.indexOf('||');
+    const anchor = separator >= 0 ? text.substring(0, separator) : text;
+    math = separator >= 0 ? text.substring(separator + 2) : '';
+    base = /^\d+$/.test(anchor) ? new Date(parseInt(anchor, 10)) : new Date(anchor);
+    if (isNaN(base.getTime())) {
+      return null;
+    }
+  }
+
+  let result = base;
+  let i = 0;
+  while (i < math.length) {
+    const op = math[i++];
+    if (op === '/') {
+      const unit = math[i++];
+      if (!unit || !DATE_MATH_UNITS.includes(unit)) return null;
+      result = roundToUnit(result, unit, roundUp);
+    } else if (op === '+' || op === '-') {
+      const digits = /^\d*/.exec(math.substring(i))![0];
+      i += digits.length;
+      const unit = math[i++];
+      if (!unit || !DATE_MATH_UNITS.includes(unit)) return null;
+      const amount = digits ? parseInt(digits, 10) : 1;
+      result = addUnit(result, op === '+' ? amount : -amount, unit);
+    } else {
+      return null;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * IANA time zone of the browser, e.g. "Europe/Paris"
+ */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Time range sent with the search requests
+ */
+export interface TimeRangeRequest extends TimeRange {
+  timeZone: string;
+}
+
+/**
+ * Adds the browser time zone to a time range, so Elasticsearch rounds date math ("now/d")
+ * to the same local days the helpers above resolve
+ */
+export function toTimeRangeRequest(timeRange: TimeRange): TimeRangeRequest {
+  return { from: timeRange.from, to: timeRange.to, timeZone: getBrowserTimeZone() };
+}
+
+export function isValidTimeRange(timeRange: TimeRange): boolean {
+  const from = parseDateMath(timeRange.from);
+  const to = parseDateMath(timeRange.to, true);
+  return !!from && !!to && from.getTime() <= to.getTime();
+}
+
+/**
+ * Display label: the quick range label when it matches one, else "from → to"
+ */
+export function getTimeRangeLabel(timeRange: TimeRange): string {
+  const quickRange = QUICK_RANGES.find(range => range.from === timeRange.from && range.to === timeRange.to);
+  return quickRange ? quickRange.label : `${timeRange.from} → ${timeRange.to}`;
+}
+
+export interface HistogramInterval {
+  // Elasticsearch fixed_interval, e.g. "30s", "5m", "1d"
+  interval: string;
+  ms: number;
+}
+
+const HISTOGRAM_INTERVALS: HistogramInterval[] = [
+  { interval: '1s', ms: 1000 },
+  { interval: '5s', ms: 5 * 1000 },
+  { interval: '10s', ms: 10 * 1000 },
+  { interval: '30s', ms: 30 * 1000 },
+  { interval: '1m', ms: UNIT_MS['m'] },
+  { interval: '5m', ms: 5 * UNIT_MS['m'] },
+  { interval: '10m', ms: 10 * UNIT_MS['m'] },
+  { interval: '30m', ms: 30 * UNIT_MS['m'] },
+  { interval: '1h', ms: UNIT_MS['h'] },
+  { interval: '3h', ms: 3 * UNIT_MS['h'] },
+  { interval: '12h', ms: 12 * UNIT_MS['h'] },
+  { interval: '1d', ms: UNIT_MS['d'] },
+  { interval: '7d', ms: UNIT_MS['w'] },
+  { interval: '30d', ms: 30 * UNIT_MS['d'] }
+];
+
+/**
+ * Picks the smallest histogram interval that keeps the number of buckets under the target,
+ * like Kibana's "Auto" interval
+ */
+export function getAutoInterval(from: Date, to: Date, targetBuckets: number = 60): HistogramInterval {
+  const duration = Math.max(to.getTime() - from.getTime(), 0);
+  return HISTOGRAM_INTERVALS.find(candidate => duration / candidate.ms <= targetBuckets) ||
+    HISTOGRAM_INTERVALS[HISTOGRAM_INTERVALS.length - 1];
+}
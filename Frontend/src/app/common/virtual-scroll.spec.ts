@@ -0,0 +1,33 @@
+import { getIndexAtOffset, getItemOffsets, getRenderedColumns, getRenderedRows } from './virtual-scroll';
+
+describe('VirtualScroll', () => {
+  // Rows of 30px, the third one expanded to 330px
+  const offsets = getItemOffsets([30, 30, 330, 30, 30]);
+
+  it('builds the offsets and total size of the rows', () => {
+    expect(offsets).toEqual([0, 30, 60, 390, 420, 450]);
+  });
+
+  it('finds the row at an offset', () => {
+    expect(getIndexAtOffset(offsets, 0)).toBe(0);
+    expect(getIndexAtOffset(offsets, 59)).toBe(1);
+    expect(getIndexAtOffset(offsets, 60)).toBe(2);
+    expect(getIndexAtOffset(offsets, 389)).toBe(2);
+    expect(getIndexAtOffset(offsets, 1000)).toBe(4);
+  });
+
+  it('renders the rows in the viewport and its buffer', () => {
+    expect(getRenderedRows(offsets, 0, 50, 0)).toEqual({ start: 0, end: 2 });
+    expect(getRenderedRows(offsets, 100, 50, 0)).toEqual({ start: 2, end: 3 });
+    expect(getRenderedRows(offsets, 100, 50, 60)).toEqual({ start: 1, end: 3 });
+    expect(getRenderedRows(offsets, 380, 20, 30)).toEqual({ start: 2, end: 5 });
+    expect(getRenderedRows(getItemOffsets([]), 0, 50, 60)).toEqual({ start: 0, end: 0 });
+  });
+
+  it('renders the columns in the viewport and its buffer', () => {
+    expect(getRenderedColumns(100, 200, 0, 900, 1)).toEqual({ start: 0, end: 6 });
+    expect(getRenderedColumns(100, 200, 1000, 900, 1)).toEqual({ start: 4, end: 11 });
+    expect(getRenderedColumns(8, 200, 1000, 900, 1)).toEqual({ start: 4, end: 8 });
+    expect(getRenderedColumns(0, 200, 0, 900, 1)).toEqual({ start: 0, end: 0 });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Virtual scroll helpers
+ * Which rows and columns of the log table to render for a scroll position. Rows can have
+ * different heights (expanded rows show their details), columns all have the same width.
+ */
+
+export interface RenderedRange {
+  start: number; // First rendered index
+  end: number; // Index after the last rendered one
+}
+
+/**
+ * Offset of each item from the top, plus the total size as the last entry
+ */
+export function getItemOffsets(heights: number[]): number[] {
+  const offsets = [0];
+  heights.forEach((height, index) => offsets.push(offsets[index] + height));
+  return offsets;
+}
+
+/**
+ * Index of the item at an offset, for offsets built with getItemOffsets
+ */
+export function getIndexAtOffset(offsets: number[], offset: number): number {
+  const count = offsets.length - 1;
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (offsets[middle + 1] <= offset) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return Math.min(low, Math.max(0, count - 1));
+}
+
+/**
+ * Rows intersecting the viewport, extended by the buffer size on both sides
+ */
+export function getRenderedRows(offsets: number[], scrollOffset: number, viewportSize: number, buffer: number): RenderedRange {
+  const count = offsets.length - 1;
+  if (count <= 0) {
+    return { start: 0, end: 0 };
+  }
+  const start = getIndexAtOffset(offsets, Math.max(0, scrollOffset - buffer));
+  const end = getIndexAtOffset(offsets, scrollOffset + viewportSize + buffer) + 1;
+  return { start, end: Math.min(count, end) };
+}
+
+/**
+ * Columns of a fixed width intersecting the viewport, plus a buffer of columns on both sides.
+ * The scroll offset is measured from the first virtual column.
+ */
+export function getRenderedColumns(count: number, width: number, scrollOffset: number, viewportSize: number, buffer: number): RenderedRange {
+  if (count <= 0 || width <= 0) {
+    return { start: 0, end: 0 };
+  }
+  const first = Math.floor(Math.max(0, scrollOffset) / width);
+  const last = Math.ceil((Math.max(0, scrollOffset) + viewportSize) / width);
+  return {
+    start: Math.min(count, Math.max(0, first - buffer)),
+    end: Math.min(count, last + buffer)
+  };
+}
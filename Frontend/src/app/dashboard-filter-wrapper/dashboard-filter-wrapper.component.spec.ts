@@ -1,4 +1,7 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormsModule } from '@angular/forms';
+import { RouterTestingModule } from '@angular/router/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
 
 import { DashboardFilterWrapperComponent } from './dashboard-filter-wrapper.component';
 
@@ -8,6 +11,7 @@ describe('DashboardFilterWrapperComponent', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
+      imports: [ FormsModule, RouterTestingModule, HttpClientTestingModule ],
       declarations: [ DashboardFilterWrapperComponent ]
     })
     .compileComponents();
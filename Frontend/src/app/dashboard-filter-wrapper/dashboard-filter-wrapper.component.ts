@@ -1,8 +1,18 @@
 import { Component, OnInit, OnDestroy, Input, Output, EventEmitter } from '@angular/core';
+import { ActivatedRoute, Router } from '@angular/router';
 // import { RestService } from '../../services/rest.service';
 import { environment } from 'src/environments/environment';
 import { Subscription } from 'rxjs';
-import { FilterGroup } from '../filter.model';
+import { Filter, FilterCondition, FilterGroup } from '../filter.model';
+import { FilterStateService } from '../services/filter-state.service';
+import { DataViewService } from '../services/data-view.service';
+import { DataView, DataViewField } from '../data-view.model';
+import { combineClauses, compileCondition, CUSTOM_DSL_OPERATOR, normalizeOperator, QueryClause } from '../common/query-dsl-compiler';
+import { compileKqlQuery, KqlSyntaxError } from '../common/kql-parser';
+import { buildFieldTypeMap } from '../common/field-types';
+import { FilterOperatorOption, getOperatorOptions, RANGE_OPERATORS } from '../common/filter-operators';
+import { decodeDashboardState, encodeDashboardState, TableState } from '../common/dashboard-url-state';
+import { DEFAULT_TIME_RANGE, isValidTimeRange, TimeRange } from '../common/time-range';
 
 @Component({
   selector: 'app-dashboard-filter-wrapper',
@@ -15,21 +25,159 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
 
   showFilterBar: boolean = false;
   activeFilters: FilterGroup | null = null;
+
+  // Badge menu (pin, edit, negate, disable, delete) and in-place editor of an active filter
+  openBadgeMenuIndex: number | null = null;
+  editingFilterIndex: number | null = null;
+  editDraft: FilterCondition | null = null;
+  rangeOperators: FilterOperatorOption[] = RANGE_OPERATORS;
+
+  // KQL query bar
+  kqlQuery: string = '';
+  // Syntax errors, or any failure to compile the query
+  kqlError: Error | null = null;
+  private kqlClause: QueryClause | null = null;
+  private appliedKqlQuery: string = '';
+
+  // Active filters combined with the KQL query, sent to the data table
+  searchFilters: FilterGroup | null = null;
+
+  // Time range applied server-side to the index's time field, kept in the URL as ?from=&to=
+  timeRange: TimeRange = { ...DEFAULT_TIME_RANGE };
+
+  // Selected data view (index pattern), kept in the URL as ?dataView=
+  dataView: DataView | null = null;
+  dataViewError: string | null = null;
+
+  // Log table columns, sort and page size; kept in the URL with the filters and query as ?_a=
+  tableState: TableState | null = null;
+  // Encoded dashboard state last written to or restored from the URL
+  private urlState: string | null = null;
   
   snort !: Subscription;
   bin !: Subscription;
   binary !: Subscription;
+  dataViewSubscription !: Subscription;
+  dataViewErrorSubscription !: Subscription;
+  queryParamsSubscription !: Subscription;
 
-  constructor() { }
+  constructor(
+    private filterStateService: FilterStateService,
+    private dataViewService: DataViewService,
+    private router: Router,
+    private route: ActivatedRoute
+  ) { }
 
   ngOnInit(): void {
+    this.loadTimeRangeFromUrl();
+    this.restoreStateFromUrl(this.route.snapshot.queryParams['_a'] || null);
+
+    this.dataViewSubscription = this.dataViewService.selectedDataView$.subscribe(dataView => {
+      const fieldsLoaded = !!dataView?.fields && dataView.fields !== this.dataView?.fields;
+      this.dataView = dataView;
+      if (dataView && this.route.snapshot.queryParams['dataView'] !== dataView.id) {
+        this.updateUrl({ dataView: dataView.id });
+      }
+      if (fieldsLoaded) {
+        this.recompileForFieldTypes();
+      }
+    });
+    this.dataViewErrorSubscription = this.dataViewService.error$.subscribe(error => this.dataViewError = error);
+    this.dataViewService.loadDataViews(this.route.snapshot.queryParams['dataView']);
+
+    // Browser back/forward between filter changes
+    this.queryParamsSubscription = this.route.queryParams.subscribe(params => this.onQueryParamsChange(params));
+
+    this.loadDashboardData();
+  }
+
+  private onQueryParamsChange(params: { [key: string]: string }): void {
+    const encoded = params['_a'] || null;
+    if (encoded === this.urlState) {
+      return;
+    }
+    this.restoreStateFromUrl(encoded);
+    if (params['from'] && params['to'] && isValidTimeRange({ from: params['from'], to: params['to'] })) {
+      this.timeRange = { from: params['from'], to: params['to'] };
+    }
     this.loadDashboardData();
   }
 
+  /**
+   * Restores the filter tree, KQL query and table state of a shared link;
+   * a missing or unreadable state restores the empty dashboard
+   */
+  private restoreStateFromUrl(encoded: string | null): void {
+    this.urlState = encoded;
+    const state = decodeDashboardState(encoded);
+
+    if (state?.tree?.root) {
+      this.filterStateService.setFilterTree(state.tree);
+    } else {
+      this.filterStateService.reset();
+    }
+    // Pinned filters apply to every dashboard link
+    this.filterStateService.restorePinnedFilters();
+    this.activeFilters = this.filterStateService.getFilterTree().root
+      ? this.filterStateService.buildFilterGroup(state?.customLabel, buildFieldTypeMap(this.dataView?.fields))
+      : null;
+
+    this.kqlQuery = state?.kqlQuery || '';
+    this.kqlError = null;
+    this.compileKqlQuery();
+
+    this.tableState = state?.table || null;
+  }
+
+  /**
+   * Writes the dashboard state to the URL. Filter and query changes add a history entry
+   * so back/forward steps through them; table changes replace the current entry.
+   */
+  private saveStateToUrl(addHistoryEntry: boolean): void {
+    const encoded = encodeDashboardState({
+      tree: this.activeFilters?.tree,
+      customLabel: this.activeFilters?.customLabel,
+      kqlQuery: this.appliedKqlQuery,
+      table: this.tableState
+    });
+    if (encoded === this.urlState) {
+      return;
+    }
+    this.urlState = encoded;
+    this.updateUrl({ _a: encoded }, !addHistoryEntry);
+  }
+
+  onTableStateChange(tableState: TableState): void {
+    this.tableState = tableState;
+    this.saveStateToUrl(false);
+  }
+
+  private loadTimeRangeFromUrl(): void {
+    const { from, to } = this.route.snapshot.queryParams;
+    if (from && to && isValidTimeRange({ from, to })) {
+      this.timeRange = { from, to };
+    }
+  }
+
+  onTimeRangeChange(timeRange: TimeRange): void {
+    this.timeRange = timeRange;
+    this.updateUrl({ from: timeRange.from, to: timeRange.to });
+  }
+
+  private updateUrl(queryParams: { [key: string]: string | null }, replaceUrl: boolean = true): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams,
+      queryParamsHandling: 'merge',
+      replaceUrl
+    });
+  }
+
   loadDashboardData(filters?: FilterGroup): void {
     // Clear existing data
     this.dashboardData.chartAllData = [];
     this.dashboardData.BarData = [];
+    this.updateSearchFilters();
     
     // Note: getSnortAlert, getBinClass, and getBinary methods are removed
     // Dashboard data should be loaded via Elasticsearch queries instead
@@ -46,6 +194,102 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
     });
   }
 
+  /**
+   * Compiles the applied filters and query again with the field types of the data view.
+   * State restored from the URL is compiled before the fields load; the search only
+   * runs again when the field types change the query.
+   */
+  private recompileForFieldTypes(): void {
+    const fieldTypes = buildFieldTypeMap(this.dataView?.fields);
+    if (this.activeFilters?.tree) {
+      this.filterStateService.setFilterTree(this.activeFilters.tree);
+      this.activeFilters = this.filterStateService.buildFilterGroup(this.activeFilters.customLabel, fieldTypes);
+    }
+    try {
+      this.kqlClause = this.appliedKqlQuery ? compileKqlQuery(this.appliedKqlQuery, fieldTypes) : null;
+    } catch (error) {
+      // The query compiled before; keep its clause and show why it no longer does
+      this.kqlError = error instanceof Error ? error : new Error(String(error));
+    }
+
+    const previousQuery = JSON.stringify(this.searchFilters?.queryDSL || null);
+    const previousFilters = this.searchFilters;
+    this.updateSearchFilters();
+    if (previousFilters && JSON.stringify(this.searchFilters?.queryDSL || null) === previousQuery) {
+      this.searchFilters = previousFilters;
+    }
+  }
+
+  /**
+   * Parses the KQL query; on a syntax error the previous query stays applied
+   */
+  submitKqlQuery(): void {
+    if (!this.compileKqlQuery()) {
+      return;
+    }
+    this.updateSearchFilters();
+    this.saveStateToUrl(true);
+  }
+
+  /**
+   * Returns false and keeps the previous clause when the query doesn't compile
+   */
+  private compileKqlQuery(): boolean {
+    try {
+      this.kqlClause = compileKqlQuery(this.kqlQuery, buildFieldTypeMap(this.dataView?.fields));
+      this.appliedKqlQuery = this.kqlClause ? this.kqlQuery : '';
+      this.kqlError = null;
+      return true;
+    } catch (error) {
+      this.kqlError = error instanceof Error ? error : new Error(String(error));
+      return false;
+    }
+  }
+
+  onKqlInput(): void {
+    this.kqlError = null;
+  }
+
+  clearKqlQuery(): void {
+    this.kqlQuery = '';
+    this.submitKqlQuery();
+  }
+
+  getKqlErrorMessage(): string {
+    if (this.kqlError instanceof KqlSyntaxError) {
+      return `KQL syntax error at position ${this.kqlError.position}: ${this.kqlError.message}`;
+    }
+    return `The KQL query could not be compiled: ${this.kqlError?.message}`;
+  }
+
+  /**
+   * Marker line pointing at the position of the KQL syntax error
+   */
+  getKqlErrorPointer(): string {
+    return this.kqlError instanceof KqlSyntaxError ? `${'-'.repeat(this.kqlError.position)}^` : '';
+  }
+
+  /**
+   * Combines the KQL query with the active filter group under bool.filter
+   */
+  updateSearchFilters(): void {
+    if (!this.kqlClause) {
+      this.searchFilters = this.activeFilters;
+      return;
+    }
+
+    const clauses: QueryClause[] = [this.kqlClause];
+    const filterQuery = this.activeFilters?.queryDSL?.query;
+    if (filterQuery && !filterQuery['match_all']) {
+      clauses.push(filterQuery);
+    }
+
+    this.searchFilters = {
+      ...(this.activeFilters || { filters: [] }),
+      queryDSL: { query: { bool: { filter: clauses } } }
+    };
+  }
+
   toggleFilterBar(): void {
     this.showFilterBar = !this.showFilterBar;
   }
@@ -53,16 +297,178 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
   onFiltersApplied(filterGroup: FilterGroup): void {
     this.activeFilters = filterGroup;
     this.showFilterBar = false;
+    this.filterStateService.storePinnedFilters();
     this.loadDashboardData(filterGroup);
+    this.saveStateToUrl(true);
   }
 
   onCloseFilterBar(): void {
     this.showFilterBar = false;
   }
 
+  /**
+   * Removes every filter except the pinned ones
+   */
   clearFilters(): void {
-    this.activeFilters = null;
-    this.loadDashboardData();
+    if (this.activeFilters?.tree) {
+      this.filterStateService.setFilterTree(this.activeFilters.tree);
+      this.filterStateService.clearUnpinnedFilters();
+    } else {
+      this.filterStateService.reset();
+    }
+    this.applyFilterTreeChange();
+  }
+
+  /**
+   * Adds a condition from a dashboard panel (e.g. a map cluster), ANDed with the applied filters
+   */
+  addFilter(filter: Partial<FilterCondition>): void {
+    if (this.activeFilters?.tree) {
+      this.filterStateService.setFilterTree(this.activeFilters.tree);
+    } else {
+      this.filterStateService.reset();
+    }
+    const root = this.filterStateService.getFilterTree().root;
+    this.filterStateService.addFilter(root ? root.id : '', 'AND', filter);
+    this.applyFilterTreeChange(this.activeFilters?.customLabel);
+  }
+
+  /**
+   * Applies the filter state service's tree after a badge action: rebuilds the active
+   * filter group, stores the pinned filters, reloads and adds a history entry
+   */
+  private applyFilterTreeChange(customLabel?: string): void {
+    this.closeBadgeMenu();
+    this.activeFilters = this.filterStateService.getFilterTree().root
+      ? this.filterStateService.buildFilterGroup(customLabel, buildFieldTypeMap(this.dataView?.fields))
+      : null;
+    this.filterStateService.storePinnedFilters();
+    this.loadDashboardData(this.activeFilters || undefined);
+    this.saveStateToUrl(true);
+  }
+
+  hasPinnedFilters(): boolean {
+    return !!this.activeFilters?.filters.some(filter => filter.meta?.pinned);
+  }
+
+  toggleBadgeMenu(index: number): void {
+    this.openBadgeMenuIndex = this.openBadgeMenuIndex === index ? null : index;
+    this.editingFilterIndex = null;
+    this.editDraft = null;
+  }
+
+  closeBadgeMenu(): void {
+    this.openBadgeMenuIndex = null;
+    this.editingFilterIndex = null;
+    this.editDraft = null;
+  }
+
+  togglePinned(index: number): void {
+    const filter = this.activeFilters?.filters[index];
+    if (filter) {
+      this.updateFilterMeta(index, { pinned: !filter.meta?.pinned });
+    }
+  }
+
+  toggleDisabled(index: number): void {
+    const filter = this.activeFilters?.filters[index];
+    if (filter) {
+      this.updateFilterMeta(index, { disabled: !filter.meta?.disabled });
+    }
+  }
+
+  toggleNegate(index: number): void {
+    const filter = this.activeFilters?.filters[index];
+    if (filter) {
+      this.updateFilterMeta(index, { negate: !filter.meta?.negate });
+    }
+  }
+
+  /**
+   * Sets a pin/disable/negate flag; disabled filters stay in the group but not in the Query DSL
+   */
+  private updateFilterMeta(index: number, changes: { pinned?: boolean; disabled?: boolean; negate?: boolean }): void {
+    if (!this.activeFilters) {
+      return;
+    }
+
+    const condition = this.activeFilters.filters[index] as FilterCondition;
+    if (this.activeFilters.tree && condition.id) {
+      this.filterStateService.setFilterTree(this.activeFilters.tree);
+      this.filterStateService.updateFilterMeta(condition.id, changes);
+      this.applyFilterTreeChange(this.activeFilters.customLabel);
+      return;
+    }
+
+    condition.meta = { ...condition.meta, ...changes };
+    this.closeBadgeMenu();
+    this.generateQueryDSLFromFilters();
+    this.loadDashboardData(this.activeFilters);
+  }
+
+  /**
+   * Custom DSL filters are edited from the filter bar's Query DSL editor
+   */
+  canEditFilter(filter: Filter): boolean {
+    return filter.operator !== CUSTOM_DSL_OPERATOR;
+  }
+
+  startEditFilter(index: number): void {
+    const filter = this.activeFilters?.filters[index];
+    if (!filter) {
+      return;
+    }
+    this.openBadgeMenuIndex = null;
+    this.editingFilterIndex = index;
+    this.editDraft = { ...(filter as FilterCondition) };
+  }
+
+  getEditFields(): DataViewField[] {
+    return this.dataView?.fields || [];
+  }
+
+  getEditOperatorOptions(): FilterOperatorOption[] {
+    const field = this.getEditFields().find(candidate => candidate.name === this.editDraft?.field);
+    return getOperatorOptions(field);
+  }
+
+  onEditFieldChange(field: string): void {
+    if (!this.editDraft) {
+      return;
+    }
+    this.editDraft.field = field;
+    if (!this.getEditOperatorOptions().some(option => option.value === normalizeOperator(this.editDraft!.operator || ''))) {
+      this.editDraft.operator = 'is';
+    }
+  }
+
+  /**
+   * The edited filter is valid when it compiles to a clause
+   */
+  isEditDraftValid(): boolean {
+    return !!this.editDraft && !!compileCondition({ ...this.editDraft, meta: undefined });
+  }
+
+  saveFilterEdit(): void {
+    if (!this.activeFilters || this.editingFilterIndex === null || !this.editDraft || !this.isEditDraftValid()) {
+      return;
+    }
+
+    const { field, operator, value, minOperator, minValue, maxOperator, maxValue, timeZone } = this.editDraft;
+    const changes = { field, operator, value, minOperator, minValue, maxOperator, maxValue, timeZone };
+    const condition = this.activeFilters.filters[this.editingFilterIndex] as FilterCondition;
+
+    if (this.activeFilters.tree && condition.id) {
+      this.filterStateService.setFilterTree(this.activeFilters.tree);
+      this.filterStateService.modifyFilter(condition.id, null, changes);
+      this.applyFilterTreeChange(this.activeFilters.customLabel);
+      return;
+    }
+
+    Object.assign(condition, changes);
+    this.closeBadgeMenu();
+    this.generateQueryDSLFromFilters();
+    this.loadDashboardData(this.activeFilters);
   }
 
   removeFilter(index: number): void {
@@ -70,6 +476,15 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
       return;
     }
 
+    // Filters applied from the tree editor are removed from the tree, which keeps the remaining groups intact
+    const condition = this.activeFilters.filters[index] as FilterCondition;
+    if (this.activeFilters.tree && condition.id) {
+      this.filterStateService.setFilterTree(this.activeFilters.tree);
+      this.filterStateService.removeFilter(condition.id);
+      this.applyFilterTreeChange(this.activeFilters.customLabel);
+      return;
+    }
+
     // Remove the filter at the specified index
     this.activeFilters.filters.splice(index, 1);
 
@@ -86,126 +501,65 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
     this.loadDashboardData(this.activeFilters);
   }
 
+  /**
+   * Rebuilds the Query DSL of a flat filter list (filters applied without a tree):
+   * AND filters are required, OR filters are alternatives
+   */
   generateQueryDSLFromFilters(): void {
     if (!this.activeFilters || !this.activeFilters.filters) {
       return;
     }
 
-    const mustQueries: any[] = [];
-    const shouldQueries: any[] = [];
+    const mustQueries: QueryClause[] = [];
+    const shouldQueries: QueryClause[] = [];
 
-    this.activeFilters.filters.forEach((filter: any, index: number) => {
-      if (!filter.field || !filter.operator) {
+    const fieldTypes = buildFieldTypeMap(this.dataView?.fields);
+    this.activeFilters.filters.forEach((filter: Filter, index: number) => {
+      const query = compileCondition(filter, fieldTypes);
+      if (!query) {
         return;
       }
 
-      let query: any = {};
-      const isKeyword = filter.field.endsWith('.keyword');
-
-      // Normalize operator to handle various formats
-      const normalizedOperator = this.normalizeOperator(filter.operator);
-      
-      switch (normalizedOperator) {
-        case 'is':
-          // Field exactly matches a single value
-          if (isKeyword) {
-            query = { term: { [filter.field]: filter.value } };
-          } else {
-            query = { match: { [filter.field]: filter.value } };
-          }
-          break;
-        case 'is_not':
-          // Field does not exactly match a single value
-          if (isKeyword) {
-            query = { bool: { must_not: [{ term: { [filter.field]: filter.value } }] } };
-          } else {
-            query = { bool: { must_not: [{ match: { [filter.field]: filter.value } }] } };
-          }
-          break;
-        case 'is_one_of':
-          // Field matches any of multiple values
-          const values = Array.isArray(filter.value) 
-            ? filter.value 
-            : (typeof filter.value === 'string' ? filter.value.split(',').map((v: string) => v.trim()) : [filter.value]);
-          query = { terms: { [filter.field]: values } };
-          break;
-        case 'is_not_one_of':
-          // Field matches none of multiple values
-          const notValues = Array.isArray(filter.value) 
-            ? filter.value 
-            : (typeof filter.value === 'string' ? filter.value.split(',').map((v: string) => v.trim()) : [filter.value]);
-          query = { bool: { must_not: [{ terms: { [filter.field]: notValues } }] } };
-          break;
-        case 'exists':
-          // Field has any value (is present)
-          query = { exists: { field: filter.field } };
-          break;
-        case 'does_not_exist':
-          // Field is missing or null
-          query = { bool: { must_not: [{ exists: { field: filter.field } }] } };
-          break;
-        default:
-          console.warn(`Unknown filter operator: ${filter.operator}`);
-          return;
-      }
-
-      if (index === 0) {
+      if (index === 0 || (filter.logic || 'AND') === 'AND') {
         mustQueries.push(query);
       } else {
-        const logic = filter.logic || 'AND';
-        if (logic === 'AND') {
-          mustQueries.push(query);
-        } else {
-          shouldQueries.push(query);
-        }
+        shouldQueries.push(query);
       }
     });
 
-    const boolQuery: any = {};
-    if (mustQueries.length > 0) {
-      boolQuery.must = mustQueries;
-    }
+    const clauses = [...mustQueries];
     if (shouldQueries.length > 0) {
-      boolQuery.should = shouldQueries;
-      boolQuery.minimum_should_match = 1;
+      clauses.push(combineClauses(shouldQueries, 'OR'));
     }
 
     this.activeFilters.queryDSL = {
-      query: {
-        bool: boolQuery
-      }
+      query: combineClauses(clauses, 'AND')
     };
   }
 
-  normalizeOperator(operator: string): string {
-    // Map various operator formats to standard format
-    const operatorMap: { [key: string]: string } = {
-      'is': 'is',
-      'isNot': 'is_not',
-      'is_not': 'is_not',
-      'terms': 'is_one_of',
-      'is_one_of': 'is_one_of',
-      'notTerms': 'is_not_one_of',
-      'is_not_one_of': 'is_not_one_of',
-      'exists': 'exists',
-      'notExists': 'does_not_exist',
-      'does_not_exist': 'does_not_exist'
-    };
-    return operatorMap[operator] || operator;
-  }
-
   getOperatorLabel(operator: string | undefined): string {
     if (!operator) {
       return '';
     }
-    const normalizedOperator = this.normalizeOperator(operator);
+    const normalizedOperator = normalizeOperator(operator);
     const operatorMap: { [key: string]: string } = {
       'is': 'is',
       'is_not': 'is not',
       'is_one_of': 'is one of',
       'is_not_one_of': 'is not one of',
       'exists': 'exists',
-      'does_not_exist': 'does not exist'
+      'does_not_exist': 'does not exist',
+      'range': 'range',
+      'is_between': 'is between',
+      'is_not_between': 'is not between',
+      'is_in_subnet': 'is in subnet',
+      'geo_distance': 'is within distance of',
+      'geo_bounding_box': 'is inside bounding box',
+      'geo_polygon': 'is inside polygon',
+      'prefix': 'prefix',
+      'wildcard': 'wildcard',
+      'query_string': 'query_string',
+      [CUSTOM_DSL_OPERATOR]: 'custom DSL'
     };
     return operatorMap[normalizedOperator] || operator;
   }
@@ -214,6 +568,9 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
     if (Array.isArray(value)) {
       return value.join(', ');
     }
+    if (value && typeof value === 'object') {
+      return JSON.stringify(value);
+    }
     return String(value);
   }
 
@@ -232,6 +589,15 @@ export class DashboardFilterWrapperComponent implements OnInit, OnDestroy {
     if (this.binary) {
       this.binary.unsubscribe();
     }
+    if (this.dataViewSubscription) {
+      this.dataViewSubscription.unsubscribe();
+    }
+    if (this.dataViewErrorSubscription) {
+      this.dataViewErrorSubscription.unsubscribe();
+    }
+    if (this.queryParamsSubscription) {
+      this.queryParamsSubscription.unsubscribe();
+    }
   }
 }
 
@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormsModule } from '@angular/forms';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { DataViewPickerComponent } from './data-view-picker.component';
+
+describe('DataViewPickerComponent', () => {
+  let component: DataViewPickerComponent;
+  let fixture: ComponentFixture<DataViewPickerComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ FormsModule, HttpClientTestingModule ],
+      declarations: [ DataViewPickerComponent ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(DataViewPickerComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,66 @@
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { DataView } from '../data-view.model';
+import { DataViewService } from '../services/data-view.service';
+
+/**
+ * Data view switcher, ported from Kibana's unified search dataview_picker:
+ * a button showing the current data view and a searchable, sortable list
+ */
+@Component({
+  selector: 'app-data-view-picker',
+  templateUrl: './data-view-picker.component.html',
+  styleUrls: ['./data-view-picker.component.scss']
+})
+export class DataViewPickerComponent implements OnInit, OnDestroy {
+  dataViews: DataView[] = [];
+  selectedDataView: DataView | null = null;
+
+  isOpen: boolean = false;
+  searchTerm: string = '';
+  sortDirection: 'asc' | 'desc' = 'asc';
+
+  private subscriptions: Subscription[] = [];
+
+  constructor(private dataViewService: DataViewService) { }
+
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.dataViewService.dataViews$.subscribe(dataViews => this.dataViews = dataViews),
+      this.dataViewService.selectedDataView$.subscribe(dataView => this.selectedDataView = dataView)
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(subscription => subscription.unsubscribe());
+  }
+
+  togglePopover(): void {
+    this.isOpen = !this.isOpen;
+    this.searchTerm = '';
+  }
+
+  toggleSortDirection(): void {
+    this.sortDirection = this.sortDirection === 'asc' ? 'desc' : 'asc';
+  }
+
+  /**
+   * Data views matching the search term on name or index pattern, sorted by name
+   */
+  getVisibleDataViews(): DataView[] {
+    const term = this.searchTerm.trim().toLowerCase();
+    const direction = this.sortDirection === 'asc' ? 1 : -1;
+    return this.dataViews
+      .filter(dataView => !term ||
+        dataView.name.toLowerCase().includes(term) ||
+        dataView.indexPattern.toLowerCase().includes(term))
+      .sort((a, b) => a.name.localeCompare(b.name) * direction);
+  }
+
+  selectDataView(dataView: DataView): void {
+    this.isOpen = false;
+    if (dataView.id !== this.selectedDataView?.id) {
+      this.dataViewService.selectDataView(dataView.id);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+// Field of a data view, from the field capabilities of its indices
+export interface DataViewField {
+  name: string;
+  type: string; // Elasticsearch type: keyword, text, date, long, ip, boolean, geo_point...
+  aggregatable: boolean;
+  searchable: boolean;
+  keywordSubfield?: string; // e.g. "message.keyword" for the text field "message"
+  conflictingTypes?: string[]; // Set when the indices of the data view map the field differently
+}
+
+// Data view: an index pattern with its time field, like Kibana data views
+export interface DataView {
+  id: string;
+  name: string;
+  indexPattern: string;
+  timeField: string;
+  defaultColumns: string[]; // Columns shown by the log table before the user picks any
+  fields?: DataViewField[]; // Only loaded for the selected data view
+}
@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { FormsModule } from '@angular/forms';
+
+import { FieldSidebarComponent } from './field-sidebar.component';
+
+describe('FieldSidebarComponent', () => {
+  let component: FieldSidebarComponent;
+  let fixture: ComponentFixture<FieldSidebarComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ HttpClientTestingModule, FormsModule ],
+      declarations: [ FieldSidebarComponent ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(FieldSidebarComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
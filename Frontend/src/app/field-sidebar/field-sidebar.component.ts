@@ -0,0 +1,221 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Subscription } from 'rxjs';
+import { environment } from 'src/environments/environment';
+import { FilterCondition, FilterGroup } from '../filter.model';
+import { DataView, DataViewField } from '../data-view.model';
+import { TimeRange, toTimeRangeRequest } from '../common/time-range';
+import { FieldTypeFamily, getFieldTypeFamily, isTextType } from '../common/field-types';
+
+const TOP_VALUES_SIZE = 5;
+
+// Type tokens shown before the field names, like Kibana's field icons
+const TYPE_ICONS: { [family in FieldTypeFamily]: string } = {
+  string: 't',
+  number: '#',
+  date: '◷',
+  ip: 'IP',
+  boolean: 'b',
+  geo_point: '⊕',
+  geo_shape: '⊕',
+  unknown: '?'
+};
+
+interface TopValue {
+  value: any;
+  count: number;
+}
+
+interface TopValues {
+  total: number;
+  missing: number;
+  buckets: TopValue[];
+}
+
+/**
+ * Discover-style field list: the data view's fields split into the table columns and the
+ * other fields, with a popover of each field's top values in the current result set.
+ * Column changes and "filter for / filter out" actions are emitted to the parent.
+ */
+@Component({
+  selector: 'app-field-sidebar',
+  templateUrl: './field-sidebar.component.html',
+  styleUrls: ['./field-sidebar.component.scss']
+})
+export class FieldSidebarComponent implements OnChanges, OnDestroy {
+  @Input() filters: FilterGroup | null = null;
+  @Input() timeRange: TimeRange | null = null;
+  @Input() dataView: DataView | null = null;
+  @Input() selectedFields: string[] = [];
+  @Output() fieldToggle = new EventEmitter<string>();
+  @Output() filterAdd = new EventEmitter<Partial<FilterCondition>>();
+
+  searchTerm: string = '';
+
+  // Field whose top values popover is open
+  detailsField: DataViewField | null = null;
+  topValues: TopValues | null = null;
+  loadingTopValues: boolean = false;
+  topValuesError: string | null = null;
+
+  private topValuesSubscription?: Subscription;
+
+  constructor(private http: HttpClient) { }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    const dataViewChange = changes['dataView'];
+    if (dataViewChange && dataViewChange.previousValue?.id !== dataViewChange.currentValue?.id) {
+      this.closeDetails();
+      return;
+    }
+
+    // The shares are relative to the current result set
+    if (this.detailsField && (changes['filters'] || changes['timeRange'])) {
+      this.loadTopValues();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.topValuesSubscription) {
+      this.topValuesSubscription.unsubscribe();
+    }
+  }
+
+  /**
+   * Table columns in column order; columns missing from the field catalog are listed as unknown
+   */
+  getSelectedFields(): DataViewField[] {
+    return this.selectedFields
+      .map(name => this.findField(name) || { name, type: 'unknown', aggregatable: false, searchable: false })
+      .filter(field => this.matchesSearch(field));
+  }
+
+  getAvailableFields(): DataViewField[] {
+    return (this.dataView?.fields || [])
+      .filter(field => !this.selectedFields.includes(field.name) && this.matchesSearch(field))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  isSelected(field: DataViewField): boolean {
+    return this.selectedFields.includes(field.name);
+  }
+
+  getTypeIcon(field: DataViewField): string {
+    return TYPE_ICONS[getFieldTypeFamily(field.type)];
+  }
+
+  getTypeFamily(field: DataViewField): FieldTypeFamily {
+    return getFieldTypeFamily(field.type);
+  }
+
+  toggleField(field: DataViewField, event?: Event): void {
+    event?.stopPropagation();
+    this.fieldToggle.emit(field.name);
+  }
+
+  toggleDetails(field: DataViewField): void {
+    if (this.detailsField?.name === field.name) {
+      this.closeDetails();
+      return;
+    }
+    this.detailsField = field;
+    this.loadTopValues();
+  }
+
+  closeDetails(): void {
+    if (this.topValuesSubscription) {
+      this.topValuesSubscription.unsubscribe();
+    }
+    this.detailsField = null;
+    this.topValues = null;
+    this.loadingTopValues = false;
+    this.topValuesError = null;
+  }
+
+  /**
+   * Field the top values are aggregated and filtered on: text fields use their keyword
+   * subfield, geo and other non-aggregatable fields have no top values
+   */
+  getTopValuesField(field: DataViewField): string | null {
+    const family = getFieldTypeFamily(field.type);
+    if (family === 'geo_point' || family === 'geo_shape') {
+      return null;
+    }
+    if (isTextType(field.type)) {
+      return field.keywordSubfield || null;
+    }
+    return field.aggregatable ? field.name : null;
+  }
+
+  loadTopValues(): void {
+    const field = this.detailsField && this.getTopValuesField(this.detailsField);
+    if (this.topValuesSubscription) {
+      this.topValuesSubscription.unsubscribe();
+    }
+    this.topValues = null;
+    this.topValuesError = null;
+    if (!field) {
+      this.loadingTopValues = false;
+      return;
+    }
+
+    this.loadingTopValues = true;
+
+    const payload: any = {
+      field,
+      size: TOP_VALUES_SIZE
+    };
+    if (this.timeRange) {
+      payload.timeRange = toTimeRangeRequest(this.timeRange);
+    }
+    if (this.filters && this.filters.queryDSL) {
+      payload.queryDSL = this.filters.queryDSL;
+    }
+    if (this.dataView) {
+      payload.dataView = this.dataView.id;
+    }
+
+    this.topValuesSubscription = this.http.post<TopValues>(environment.webLogsTopValues, payload).subscribe(
+      (response) => {
+        this.topValues = {
+          total: response.total || 0,
+          missing: response.missing || 0,
+          buckets: response.buckets || []
+        };
+        this.loadingTopValues = false;
+      },
+      (error) => {
+        console.error('Error loading top values:', error);
+        this.topValuesError = error.error?.message || 'Failed to load the top values';
+        this.loadingTopValues = false;
+      }
+    );
+  }
+
+  /**
+   * Share of the matching documents, as a percentage
+   */
+  getShare(count: number): number {
+    return this.topValues && this.topValues.total > 0 ? count / this.topValues.total * 100 : 0;
+  }
+
+  /**
+   * Adds an is / is not condition on the value to the active filters
+   */
+  filterOnValue(topValue: TopValue, negate: boolean): void {
+    const field = this.detailsField && this.getTopValuesField(this.detailsField);
+    if (!field) {
+      return;
+    }
+    this.filterAdd.emit({ field, operator: negate ? 'is_not' : 'is', value: topValue.value });
+  }
+
+  private findField(name: string): DataViewField | undefined {
+    return (this.dataView?.fields || []).find(field => field.name === name);
+  }
+
+  private matchesSearch(field: DataViewField): boolean {
+    const term = this.searchTerm.trim().toLowerCase();
+    return !term || field.name.toLowerCase().includes(term);
+  }
+}
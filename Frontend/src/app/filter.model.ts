@@ -17,11 +17,15 @@ export interface Filter {
   minValue?: any;
   maxOperator?: string;
   maxValue?: any;
+  timeZone?: string; // Time zone absolute date bounds were entered in (IANA name)
   // For combined/nested filters
   meta?: {
     type?: string;
     relation?: 'AND' | 'OR';
     params?: Filter[]; // Nested filters for combined filters
+    disabled?: boolean; // Kept in the filter group but left out of the Query DSL
+    negate?: boolean; // Inverts the filter (must_not)
+    pinned?: boolean; // Survives navigation and "Clear all"
   };
 }
 
@@ -37,10 +41,44 @@ export interface CombinedFilter extends Filter {
 // Filter group for output
 export interface FilterGroup {
   filters: Filter[];
+  tree?: FilterTree; // Nested filter tree the flat filters were taken from
   customLabel?: string;
   queryDSL?: any;
 }
 
+// ========== Geo filter values (value of the geo operators) ==========
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+// "is within distance of": documents within `distance` (e.g. "10km") of the center
+export interface GeoDistanceValue {
+  center: GeoPoint;
+  distance: string;
+}
+
+// "is inside bounding box"
+export interface GeoBoundingBoxValue {
+  topLeft: GeoPoint;
+  bottomRight: GeoPoint;
+}
+
+// "is inside polygon": the vertices, without repeating the first one at the end
+export interface GeoPolygonValue {
+  points: GeoPoint[];
+}
+
+export type GeoFilterValue = GeoDistanceValue | GeoBoundingBoxValue | GeoPolygonValue;
+
+// Value suggested for a field, with the number of matching documents or a hint (e.g. "Median")
+export interface FieldValueSuggestion {
+  value: string;
+  count?: number;
+  label?: string;
+}
+
 // Helper to check if filter is a combined filter
 export function isCombinedFilter(filter: Filter): filter is CombinedFilter {
   return filter.meta?.type === 'combined' && Array.isArray(filter.meta.params);
@@ -1,12 +1,41 @@
-import { Component, OnInit, OnDestroy, OnChanges, SimpleChanges, Input, Output, EventEmitter } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { Component, OnInit, OnDestroy, OnChanges, SimpleChanges, Input, Output, EventEmitter, HostListener, ViewChild, ElementRef, NgZone } from '@angular/core';
+import { HttpClient, HttpDownloadProgressEvent, HttpEventType } from '@angular/common/http';
+import { CdkVirtualScrollViewport, VIRTUAL_SCROLL_STRATEGY } from '@angular/cdk/scrolling';
 import { environment } from 'src/environments/environment';
-import { FilterGroup } from '../filter.model';
+import { FilterCondition, FilterGroup } from '../filter.model';
+import { TimeRange, toTimeRangeRequest } from '../common/time-range';
+import { TableState } from '../common/dashboard-url-state';
+import { getListValues, normalizeOperator } from '../common/query-dsl-compiler';
+import { DataView } from '../data-view.model';
+import { getRenderedColumns, RenderedRange } from '../common/virtual-scroll';
+import { countExportLines, EMPTY_LINE_COUNT, getExportedRows } from '../common/export-rows';
 import { Subscription } from 'rxjs';
+import { LogRowScrollStrategy } from './log-row-scroll-strategy';
+
+// Fixed sizes the virtual scroll relies on: rows don't wrap and detail panels scroll inside
+const ROW_HEIGHT = 33;
+const DETAIL_HEIGHT = 320;
+const COLUMN_WIDTH = 200;
+// Columns rendered on each side of the visible ones
+const COLUMN_BUFFER = 2;
+
+const EXPORT_TYPES: { [format: string]: string } = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson'
+};
+
+// Value picker of a multi-valued cell, opened by its filter for / filter out action
+interface CellValueMenu {
+  entry: LogEntry;
+  field: string;
+  negate: boolean;
+  values: any[];
+}
 
 interface LogEntry {
   _id?: string;
   _index?: string;
+  sort?: any[]; // Sort values, the search_after cursor of the next page
   expanded?: boolean;
   _source: {
     [key: string]: any;
@@ -17,148 +46,212 @@ interface LogEntry {
 @Component({
   selector: 'app-kibana-data-table',
   templateUrl: './kibana-data-table.component.html',
-  styleUrls: ['./kibana-data-table.component.scss']
+  styleUrls: ['./kibana-data-table.component.scss'],
+  providers: [
+    LogRowScrollStrategy,
+    { provide: VIRTUAL_SCROLL_STRATEGY, useExisting: LogRowScrollStrategy }
+  ]
 })
 export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
   @Input() filters: FilterGroup | null = null;
+  @Input() timeRange: TimeRange | null = null;
+  @Input() dataView: DataView | null = null;
+  // Columns, sort and page size restored from the URL
+  @Input() tableState: TableState | null = null;
   @Output() dataLoaded = new EventEmitter<any>();
+  @Output() tableStateChange = new EventEmitter<TableState>();
+  // Filter for / filter out actions, ANDed into the active filters by the dashboard
+  @Output() filterAdd = new EventEmitter<Partial<FilterCondition>>();
 
   logs: LogEntry[] = [];
   totalHits: number = 0;
   currentPage: number = 0;
-  
+
+  // Pages are read with search_after on a point in time: the cursor each visited page
+  // starts after (null for the first page) and the row offset it starts at
+  pitId: string | null = null;
+  pageCursors: (any[] | null)[] = [null];
+  pageOffsets: number[] = [0];
+  // Sort values of the last loaded row, where the next page or "load more" continues
+  nextCursor: any[] | null = null;
+  loadingMore: boolean = false;
+
   pageSize: number = 100;
   loading: boolean = false;
   error: string | null = null;
   
   
 
-  // Default visible fields (subset for initial display)
-  selectedFields: string[] = [
-    '@timestamp',
-    '@version',
-    'WAF_DATE',
-    'WAF_TIME',
-    'agent.ephemeral_id',
-    'agent.hostname',
-    'agent.id',
-    'agent.name',
-    'agent.type',
-    'agent.version',
-    'ecs.version',
-    'hname',
-    'host.architecture',
-    'host.containerized',
-    'host.hostname',
-    'host.id',
-    'host.ip',
-    'host.mac',
-    'host.name',
-    'host.os.family',
-    'host.os.kernel',
-    'host.os.name',
-    'host.os.platform',
-    'host.os.type',
-    'host.os.version',
-    'input.type',
-    'iptype',
-    'iptype_dst',
-    'log.file.path',
-    'log.offset',
-    'log_id',
-    'logcat',
-    'logfilepath',
-    'logname',
-    'message',
-    'region',
-    'request',
-    'siem_dstip',
-    'siem_firewall',
-    'siem_hostname',
-    'siem_logname',
-    'siem_shostname',
-    'siem_sourceip',
-    'siem_sourceip_geoip.city_name',
-    'siem_sourceip_geoip.continent_code',
-    'siem_sourceip_geoip.country_code2',
-    'siem_sourceip_geoip.country_code3',
-    'siem_sourceip_geoip.country_name',
-    'siem_sourceip_geoip.dma_code',
-    'siem_sourceip_geoip.ip',
-    'siem_sourceip_geoip.latitude',
-    'siem_sourceip_geoip.location.lat',
-    'siem_sourceip_geoip.location.lon',
-    'siem_sourceip_geoip.longitude',
-    'siem_sourceip_geoip.postal_code',
-    'siem_sourceip_geoip.region_code',
-    'siem_sourceip_geoip.region_name',
-    'siem_sourceip_geoip.timezone',
-    'siem_waf_dstport',
-    'siem_waf_srcport',
-    'tags',
-    'timestamp',
-    'useragent',
-    'verb',
-    'waf_action',
-    'waf_content_switch_name',
-    'waf_device_id',
-    'waf_dst',
-    'waf_dst_port',
-    'waf_http_agent',
-    'waf_http_host',
-    'waf_http_method',
-    'waf_http_session_id',
-    'waf_http_url',
-    'waf_msg',
-    'waf_msg_id',
-    'waf_policy',
-    'waf_pri',
-    'waf_proto',
-    'waf_server_pool_name',
-    'waf_service',
-    'waf_severity_level',
-    'waf_signature_id',
-    'waf_signature_subclass',
-    'waf_src',
-    'waf_src_port',
-    'waf_srccountry',
-    'waf_subtype',
-    'waf_timezone',
-    'waf_type',
-    'waf_vd',
-    'wafmessage',
-  ];
+  // Visible fields, initialized from the data view's default columns
+  selectedFields: string[] = [];
 
   sortField: string = '@timestamp';
   sortOrder: 'asc' | 'desc' = 'desc';
-  
+
+  cellValueMenu: CellValueMenu | null = null;
+
+  // Export of every hit matching the search, streamed by the server. The browser holds the
+  // whole file in memory before saving it, which is what caps the row limits.
+  readonly exportRowLimits = [1000, 10000, 50000];
+  showExportPanel: boolean = false;
+  exportFormat: 'csv' | 'ndjson' = 'csv';
+  exportMaxRows: number = 10000;
+  exporting: boolean = false;
+  exportedRows: number = 0;
+  exportTotalRows: number | null = null;
+  exportError: string | null = null;
+
+  // Checkbox, expand and timestamp columns stay on the left while the others scroll
+  readonly checkboxColumnWidth = 40;
+  readonly expandColumnWidth = 40;
+  readonly timestampColumnWidth = 180;
+  readonly columnWidth = COLUMN_WIDTH;
+
+  // Horizontal scroll of the rows; the viewport width is estimated until it scrolls
+  private columnScrollLeft = 0;
+  private viewportWidth = window.innerWidth;
+
   private searchSubscription?: Subscription;
+  // Responses of replaced searches are ignored; searchOpensPit tells if the current one opens a point in time
+  private searchRequestId = 0;
+  private searchOpensPit = false;
+  private scrollSubscription?: Subscription;
+  private exportSubscription?: Subscription;
+  private viewport?: CdkVirtualScrollViewport;
+
+  // Recreated with the table after each load
+  @ViewChild(CdkVirtualScrollViewport) set tableViewport(viewport: CdkVirtualScrollViewport | undefined) {
+    if (this.scrollSubscription) {
+      this.scrollSubscription.unsubscribe();
+    }
+    this.viewport = viewport;
+    if (viewport) {
+      this.scrollSubscription = viewport.elementScrolled().subscribe(() => this.onViewportScroll());
+    }
+  }
 
-  constructor(private http: HttpClient) {}
+  @ViewChild('headerScroller') headerScroller?: ElementRef<HTMLDivElement>;
+
+  constructor(
+    private http: HttpClient,
+    private rowScrollStrategy: LogRowScrollStrategy,
+    private ngZone: NgZone
+  ) {}
 
   ngOnInit(): void {
+    this.applyDataViewDefaults();
+    this.applyTableState();
     this.loadData();
   }
 
+  @HostListener('document:click')
+  closeCellValueMenu(): void {
+    this.cellValueMenu = null;
+  }
+
   ngOnDestroy(): void {
-    if (this.searchSubscription) {
-      this.searchSubscription.unsubscribe();
+    this.cancelSearch();
+    if (this.scrollSubscription) {
+      this.scrollSubscription.unsubscribe();
     }
+    this.cancelExport();
+    this.closePointInTime();
   }
 
-  ngOnChanges(): void {
-    if (this.filters) {
-      this.currentPage = 0;
+  ngOnChanges(changes: SimpleChanges): void {
+    // Loading the field metadata of the same data view doesn't count as a switch
+    const dataViewChange = changes['dataView'];
+    const dataViewSwitched = !!dataViewChange && !dataViewChange.firstChange &&
+      dataViewChange.previousValue?.id !== dataViewChange.currentValue?.id;
+    if (dataViewSwitched) {
+      this.applyDataViewDefaults();
+      this.emitTableState();
+    }
+
+    // Browser back/forward restores a previous table state
+    const tableStateChange = changes['tableState'];
+    const tableStateRestored = !!tableStateChange && !tableStateChange.firstChange && !dataViewSwitched &&
+      this.applyTableState();
+
+    // The first load happens in ngOnInit; later changes include clearing the filters
+    const searchChanged = dataViewSwitched ||
+      ['filters', 'timeRange'].some(input => changes[input] && !changes[input].firstChange);
+    if (searchChanged) {
+      // New results need a new point in time
+      this.closePointInTime();
+    }
+    if (searchChanged || tableStateRestored) {
+      this.resetPaging();
       this.loadData();
     }
   }
 
-  loadData(): void {
-    this.loading = true;
+  /**
+   * Resets the columns and sort to the data view's defaults
+   */
+  applyDataViewDefaults(): void {
+    if (!this.dataView) {
+      return;
+    }
+    this.selectedFields = [...this.dataView.defaultColumns];
+    if (this.selectedFields.length === 0) {
+      this.selectedFields = [this.dataView.timeField];
+    }
+    this.sortField = this.dataView.timeField;
+    this.sortOrder = 'desc';
+  }
+
+  /**
+   * Applies the table state input unless it matches the current state.
+   * Returns whether anything changed.
+   */
+  applyTableState(): boolean {
+    if (!this.tableState || this.isCurrentTableState(this.tableState)) {
+      return false;
+    }
+    if (this.tableState.columns.length > 0) {
+      this.selectedFields = [...this.tableState.columns];
+    }
+    this.sortField = this.tableState.sortField || this.sortField;
+    this.sortOrder = this.tableState.sortOrder;
+    this.pageSize = this.tableState.pageSize > 0 ? this.tableState.pageSize : this.pageSize;
+    return true;
+  }
+
+  getTableState(): TableState {
+    return {
+      columns: [...this.selectedFields],
+      sortField: this.sortField,
+      sortOrder: this.sortOrder,
+      pageSize: this.pageSize
+    };
+  }
+
+  private isCurrentTableState(state: TableState): boolean {
+    return state.sortField === this.sortField &&
+      state.sortOrder === this.sortOrder &&
+      state.pageSize === this.pageSize &&
+      state.columns.join('\n') === this.selectedFields.join('\n');
+  }
+
+  private emitTableState(): void {
+    this.tableStateChange.emit(this.getTableState());
+  }
+
+  /**
+   * Loads the current page, or with append the rows after the loaded ones ("load more")
+   */
+  loadData(append: boolean = false): void {
+    if (append) {
+      this.loadingMore = true;
+    } else {
+      // The table is rendered again, scrolled back to its first column
+      this.loading = true;
+      this.columnScrollLeft = 0;
+    }
     this.error = null;
 
     const payload: any = {
-      page: this.currentPage,
       size: this.pageSize,
       sortField: this.sortField,
       sortOrder: this.sortOrder
@@ -169,36 +262,270 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
       payload.queryDSL = this.filters.queryDSL;
     }
 
+    if (this.dataView) {
+      payload.dataView = this.dataView.id;
+    }
+
+    // The time range is applied server-side to the index's time field
+    if (this.timeRange) {
+      payload.timeRange = toTimeRangeRequest(this.timeRange);
+    }
+
+    // Without a point in time the server opens one and the search starts from the first row
+    const cursor = append ? this.nextCursor : this.pageCursors[this.currentPage];
+    if (this.pitId) {
+      payload.pitId = this.pitId;
+      if (cursor) {
+        payload.searchAfter = cursor;
+      }
+    }
+
+    this.cancelSearch();
+    const requestId = this.searchRequestId;
+    const opensPit = !payload.pitId;
+    this.searchOpensPit = opensPit;
+
     this.searchSubscription = this.http.post<any>(
       environment.webLogsSearch,
       payload
     ).subscribe(
       (response) => {
-        this.logs = response.hits || response.data || [];
+        if (requestId !== this.searchRequestId) {
+          // Replaced while in flight: only its point in time is left to close
+          if (opensPit && response.pitId) {
+            this.deletePointInTime(response.pitId);
+          }
+          return;
+        }
+
+        const hits: LogEntry[] = response.hits || response.data || [];
+        this.logs = append ? [...this.logs, ...hits] : hits;
+        this.updateRowHeights();
         this.totalHits = response.total || 0;
+        this.pitId = response.pitId || null;
+        this.nextCursor = response.searchAfter || null;
         this.loading = false;
+        this.loadingMore = false;
         this.dataLoaded.emit({
           logs: this.logs,
           total: this.totalHits
         });
       },
       (error) => {
+        if (requestId !== this.searchRequestId) {
+          return;
+        }
+        this.loading = false;
+        this.loadingMore = false;
+
+        // The point in time expired while the page was open: start over on a new one
+        if (error.status === 410 && this.pitId) {
+          this.pitId = null;
+          this.resetPaging();
+          this.loadData();
+          return;
+        }
+
         console.error('Error loading data:', error);
         this.error = error.error?.message || 'Failed to load data';
-        this.loading = false;
         this.logs = [];
+        this.updateRowHeights();
+      }
+    );
+  }
+
+  /**
+   * Stops waiting for the current search. A search opening a point in time isn't aborted:
+   * its response is the only way to learn the point in time id, to close it.
+   */
+  private cancelSearch(): void {
+    this.searchRequestId++;
+    if (this.searchSubscription && !this.searchOpensPit) {
+      this.searchSubscription.unsubscribe();
+    }
+    this.searchSubscription = undefined;
+  }
+
+  /**
+   * Back to the first page; the point in time is kept, it still matches the search
+   */
+  resetPaging(): void {
+    this.currentPage = 0;
+    this.pageCursors = [null];
+    this.pageOffsets = [0];
+    this.nextCursor = null;
+  }
+
+  /**
+   * Closes the point in time of the current results. Failures are only logged:
+   * the point in time expires on its own.
+   */
+  closePointInTime(): void {
+    if (!this.pitId) {
+      return;
+    }
+    const pitId = this.pitId;
+    this.pitId = null;
+    this.deletePointInTime(pitId);
+  }
+
+  private deletePointInTime(pitId: string): void {
+    this.http.delete(environment.webLogsSearchPit, { body: { pitId } }).subscribe({
+      error: (error) => console.warn('Failed to close the point in time:', error)
+    });
+  }
+
+  /**
+   * Columns of a CSV export: the time field and the selected fields, as shown in the table
+   */
+  getExportColumns(): string[] {
+    const timeField = this.getTimeField();
+    return [timeField, ...this.selectedFields.filter(field => field !== timeField)];
+  }
+
+  /**
+   * Downloads the hits matching the filters, up to the row limit, in the table's sort order.
+   * Rows are counted as they arrive to show the progress. The response is read as text and
+   * saved once complete, so the row limit bounds the memory it takes.
+   */
+  startExport(): void {
+    if (this.exporting) {
+      return;
+    }
+    this.exporting = true;
+    this.exportedRows = 0;
+    this.exportTotalRows = null;
+    this.exportError = null;
+
+    const format = this.exportFormat;
+    const payload: any = {
+      format,
+      maxRows: Number(this.exportMaxRows),
+      sortField: this.sortField,
+      sortOrder: this.sortOrder
+    };
+    if (format === 'csv') {
+      payload.columns = this.getExportColumns();
+    }
+    if (this.filters && this.filters.queryDSL) {
+      payload.queryDSL = this.filters.queryDSL;
+    }
+    if (this.dataView) {
+      payload.dataView = this.dataView.id;
+    }
+    if (this.timeRange) {
+      payload.timeRange = toTimeRangeRequest(this.timeRange);
+    }
+
+    let lineCount = EMPTY_LINE_COUNT;
+
+    this.exportSubscription = this.http.post(environment.webLogsExport, payload, {
+      observe: 'events',
+      reportProgress: true,
+      responseType: 'text'
+    }).subscribe(
+      (event) => {
+        if (event.type === HttpEventType.ResponseHeader) {
+          const rows = Number(event.headers.get('X-Export-Rows'));
+          this.exportTotalRows = Number.isFinite(rows) ? rows : null;
+        } else if (event.type === HttpEventType.DownloadProgress) {
+          const text = (event as HttpDownloadProgressEvent).partialText || '';
+          lineCount = countExportLines(text, format, lineCount);
+          this.exportedRows = getExportedRows(lineCount, format);
+        } else if (event.type === HttpEventType.Response) {
+          this.exporting = false;
+          this.exportedRows = this.exportTotalRows ?? this.exportedRows;
+          this.saveExport(event.body || '', format);
+        }
+      },
+      (error) => {
+        console.error('Error exporting data:', error);
+        this.exporting = false;
+        this.exportError = this.getExportErrorMessage(error);
       }
     );
   }
 
-  onPageChange(page: number): void {
-    this.currentPage = page;
+  /**
+   * Stops the download; the server stops reading the results when the request is aborted
+   */
+  cancelExport(): void {
+    if (this.exportSubscription) {
+      this.exportSubscription.unsubscribe();
+      this.exportSubscription = undefined;
+    }
+    this.exporting = false;
+  }
+
+  /**
+   * Export progress as a percentage, null until the row count is known
+   */
+  getExportProgress(): number | null {
+    if (!this.exportTotalRows) {
+      return null;
+    }
+    return Math.min(100, this.exportedRows / this.exportTotalRows * 100);
+  }
+
+  private saveExport(content: string, format: string): void {
+    const blob = new Blob([content], { type: EXPORT_TYPES[format] });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.dataView?.id || 'logs'}-export.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // Text responses keep the server's JSON error unparsed
+  private getExportErrorMessage(error: any): string {
+    try {
+      return JSON.parse(error.error).message || 'Failed to export the results';
+    } catch {
+      return error.message || 'Failed to export the results';
+    }
+  }
+
+  nextPage(): void {
+    if (!this.hasMoreRows()) {
+      return;
+    }
+    const nextPage = this.currentPage + 1;
+    this.pageCursors = [...this.pageCursors.slice(0, nextPage), this.nextCursor];
+    this.pageOffsets = [...this.pageOffsets.slice(0, nextPage), this.getLastRow()];
+    this.currentPage = nextPage;
+    this.loadData();
+  }
+
+  previousPage(): void {
+    if (this.currentPage === 0) {
+      return;
+    }
+    this.currentPage--;
     this.loadData();
   }
 
+  loadMore(): void {
+    if (this.hasMoreRows() && !this.loadingMore) {
+      this.loadData(true);
+    }
+  }
+
+  hasMoreRows(): boolean {
+    return !!this.nextCursor && this.getLastRow() < this.totalHits;
+  }
+
+  /**
+   * Offset of the first row shown, from 0
+   */
+  getFirstRow(): number {
+    return this.pageOffsets[this.currentPage] || 0;
+  }
+
   onPageSizeChange(size: number): void {
-    this.pageSize = size;
-    this.currentPage = 0;
+    this.pageSize = Number(size);
+    this.resetPaging();
+    this.emitTableState();
     this.loadData();
   }
 
@@ -209,11 +536,13 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
       this.sortField = field;
       this.sortOrder = 'desc';
     }
+    this.resetPaging();
+    this.emitTableState();
     this.loadData();
   }
 
-  getTotalPages(): number {
-    return Math.ceil(this.totalHits / this.pageSize);
+  getLastRow(): number {
+    return this.getFirstRow() + this.logs.length;
   }
 
   formatTimestamp(timestamp: string | undefined): string {
@@ -277,6 +606,71 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
     return value;
   }
 
+  /**
+   * Values a cell can be filtered on: the value, each value of an array, or none when the
+   * field is missing. Returns null for objects, which have no single value to match.
+   */
+  getCellFilterValues(entry: LogEntry, field: string): any[] | null {
+    const value = this.getRawFieldValue(entry, field);
+    if (value === null || value === undefined) {
+      return [];
+    }
+    if (Array.isArray(value)) {
+      const values = value.filter(item => item !== null && item !== undefined && typeof item !== 'object');
+      return values.length > 0 || value.length === 0 ? Array.from(new Set(values)) : null;
+    }
+    return typeof value === 'object' ? null : [value];
+  }
+
+  /**
+   * Adds an include / exclude condition on the cell's value to the active filters.
+   * Multi-valued cells open a menu to pick the value; missing values filter on existence.
+   */
+  filterOnCell(entry: LogEntry, field: string, negate: boolean, event: Event): void {
+    event.stopPropagation();
+    const values = this.getCellFilterValues(entry, field);
+    if (!values) {
+      return;
+    }
+
+    if (values.length === 0) {
+      this.cellValueMenu = null;
+      this.filterAdd.emit({ field, operator: negate ? 'exists' : 'does_not_exist' });
+    } else if (values.length === 1) {
+      this.filterOnCellValue(field, values[0], negate);
+    } else {
+      this.cellValueMenu = { entry, field, negate, values };
+    }
+  }
+
+  filterOnCellValue(field: string, value: any, negate: boolean): void {
+    this.cellValueMenu = null;
+    this.filterAdd.emit({ field, operator: negate ? 'is_not' : 'is', value });
+  }
+
+  isCellValueMenuOpen(entry: LogEntry, field: string): boolean {
+    return this.cellValueMenu?.entry === entry && this.cellValueMenu.field === field;
+  }
+
+  /**
+   * Unformatted value of a field, following nested paths and falling back to dotted keys
+   */
+  private getRawFieldValue(entry: LogEntry, field: string): any {
+    const source = entry._source || {};
+    if (field in source) {
+      return source[field];
+    }
+    let value: any = source;
+    for (const part of field.split('.')) {
+      if (value && typeof value === 'object' && !Array.isArray(value) && part in value) {
+        value = value[part];
+      } else {
+        return undefined;
+      }
+    }
+    return value;
+  }
+
   isFieldHighlighted(entry: LogEntry, field: string): boolean {
     if (!this.filters || !this.filters.filters) {
       return false;
@@ -284,6 +678,11 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
 
     // Check if this field matches any active filter (Kibana-style highlighting)
     return this.filters.filters.some(filter => {
+      // Disabled filters don't apply to the results
+      if (filter.meta?.disabled) {
+        return false;
+      }
+
       // Normalize field comparison (handle .keyword suffix)
       const filterField = filter.field || '';
       const baseField = field.replace('.keyword', '');
@@ -296,7 +695,12 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
       // Use the full field path for getting the value (handles nested fields)
       const fieldValue = this.getFieldValue(entry, field);
       const filterValue = filter.value;
-      const normalizedOperator = this.normalizeOperator(filter.operator || '');
+      const normalizedOperator = normalizeOperator(filter.operator || '');
+
+      // Negated filters highlight the opposite values
+      if (filter.meta?.negate) {
+        return false;
+      }
 
       // Apply highlighting based on filter operator
       switch (normalizedOperator) {
@@ -308,16 +712,10 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
           return String(fieldValue) !== String(filterValue);
         case 'is_one_of':
           // Highlight if field value is in the list
-          const values = Array.isArray(filterValue) 
-            ? filterValue.map(v => String(v))
-            : String(filterValue).split(',').map(v => v.trim());
-          return values.includes(String(fieldValue));
+          return getListValues(filterValue).map(v => String(v)).includes(String(fieldValue));
         case 'is_not_one_of':
           // Highlight if field value is NOT in the list
-          const notValues = Array.isArray(filterValue) 
-            ? filterValue.map(v => String(v))
-            : String(filterValue).split(',').map(v => v.trim());
-          return !notValues.includes(String(fieldValue));
+          return !getListValues(filterValue).map(v => String(v)).includes(String(fieldValue));
         case 'exists':
           // Highlight if field exists (has value)
           return fieldValue !== '-' && fieldValue !== null && fieldValue !== undefined;
@@ -330,23 +728,6 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
     });
   }
 
-  normalizeOperator(operator: string): string {
-    // Map various operator formats to standard format
-    const operatorMap: { [key: string]: string } = {
-      'is': 'is',
-      'isNot': 'is_not',
-      'is_not': 'is_not',
-      'terms': 'is_one_of',
-      'is_one_of': 'is_one_of',
-      'notTerms': 'is_not_one_of',
-      'is_not_one_of': 'is_not_one_of',
-      'exists': 'exists',
-      'notExists': 'does_not_exist',
-      'does_not_exist': 'does_not_exist'
-    };
-    return operatorMap[operator] || operator;
-  }
-
   toggleFieldSelection(field: string): void {
     const index = this.selectedFields.indexOf(field);
     if (index > -1) {
@@ -354,11 +735,82 @@ export class KibanaDataTableComponent implements OnInit, OnDestroy, OnChanges {
     } else {
       this.selectedFields.push(field);
     }
+    this.emitTableState();
   }
 
   expandRow(entry: LogEntry): void {
     // Toggle expansion state
-  entry.expanded = !entry.expanded;
+    entry.expanded = !entry.expanded;
+    this.updateRowHeights();
+  }
+
+  /**
+   * Field of the fixed timestamp column: the data view's time field
+   */
+  getTimeField(): string {
+    return this.dataView?.timeField || '@timestamp';
+  }
+
+  trackByEntry(index: number, entry: LogEntry): string {
+    return entry._id ? `${entry._index}/${entry._id}` : String(index);
+  }
+
+  /**
+   * Columns in or near the visible part of the rows
+   */
+  getColumnRange(): RenderedRange {
+    const stickyWidth = this.checkboxColumnWidth + this.expandColumnWidth + this.timestampColumnWidth;
+    return getRenderedColumns(this.selectedFields.length, COLUMN_WIDTH, this.columnScrollLeft,
+      this.viewportWidth - stickyWidth, COLUMN_BUFFER);
+  }
+
+  getRenderedFields(): string[] {
+    const range = this.getColumnRange();
+    return this.selectedFields.slice(range.start, range.end);
+  }
+
+  /**
+   * Width standing in for the columns before or after the rendered ones
+   */
+  getColumnSpacerWidth(side: 'left' | 'right'): number {
+    const range = this.getColumnRange();
+    const columns = side === 'left' ? range.start : this.selectedFields.length - range.end;
+    return columns * COLUMN_WIDTH;
+  }
+
+  getTableWidth(): number {
+    return this.checkboxColumnWidth + this.expandColumnWidth + this.timestampColumnWidth +
+      this.selectedFields.length * COLUMN_WIDTH;
+  }
+
+  /**
+   * Detail panels span the visible width rather than the whole table
+   */
+  getDetailWidth(): number {
+    return Math.max(300, this.viewportWidth - 32);
+  }
+
+  private updateRowHeights(): void {
+    this.rowScrollStrategy.setRowHeights(this.logs.map(entry => entry.expanded ? ROW_HEIGHT + DETAIL_HEIGHT : ROW_HEIGHT));
+  }
+
+  /**
+   * Keeps the header aligned with the rows and renders the newly visible columns.
+   * Scroll events arrive outside the Angular zone; only column changes need a render.
+   */
+  private onViewportScroll(): void {
+    const element = this.viewport!.elementRef.nativeElement;
+    if (this.headerScroller) {
+      this.headerScroller.nativeElement.scrollLeft = element.scrollLeft;
+    }
+
+    const previous = this.getColumnRange();
+    this.columnScrollLeft = element.scrollLeft;
+    this.viewportWidth = element.clientWidth;
+    const range = this.getColumnRange();
+    if (range.start !== previous.start || range.end !== previous.end) {
+      this.ngZone.run(() => this.columnScrollLeft = element.scrollLeft);
+    }
   }
 
   getObjectKeys(obj: any): string[] {
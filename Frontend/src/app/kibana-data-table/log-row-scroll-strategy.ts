@@ -0,0 +1,70 @@
+import { Injectable } from '@angular/core';
+import { CdkVirtualScrollViewport, VirtualScrollStrategy } from '@angular/cdk/scrolling';
+import { Subject } from 'rxjs';
+import { distinctUntilChanged } from 'rxjs/operators';
+import { getIndexAtOffset, getItemOffsets, getRenderedRows } from '../common/virtual-scroll';
+
+// Pixels rendered above and below the viewport, so fast scrolling doesn't show blank rows
+const BUFFER_SIZE = 400;
+
+/**
+ * Virtual scroll strategy of the log table. Rows have known heights that differ once
+ * expanded, which the fixed size strategy can't handle and the autosize one would have to
+ * measure; the table sets the heights whenever its rows or their expansion change.
+ */
+@Injectable()
+export class LogRowScrollStrategy implements VirtualScrollStrategy {
+  private index$ = new Subject<number>();
+  scrolledIndexChange = this.index$.pipe(distinctUntilChanged());
+
+  private viewport: CdkVirtualScrollViewport | null = null;
+  private offsets: number[] = [0];
+
+  attach(viewport: CdkVirtualScrollViewport): void {
+    this.viewport = viewport;
+    this.updateRenderedRange();
+  }
+
+  detach(): void {
+    this.viewport = null;
+  }
+
+  setRowHeights(heights: number[]): void {
+    this.offsets = getItemOffsets(heights);
+    this.updateRenderedRange();
+  }
+
+  onContentScrolled(): void {
+    this.updateRenderedRange();
+  }
+
+  onDataLengthChanged(): void {
+    this.updateRenderedRange();
+  }
+
+  onContentRendered(): void { }
+
+  onRenderedOffsetChanged(): void { }
+
+  scrollToIndex(index: number, behavior: ScrollBehavior): void {
+    if (this.viewport) {
+      const row = Math.max(0, Math.min(index, this.offsets.length - 1));
+      this.viewport.scrollToOffset(this.offsets[row], behavior);
+    }
+  }
+
+  private updateRenderedRange(): void {
+    if (!this.viewport) {
+      return;
+    }
+
+    const scrollOffset = this.viewport.measureScrollOffset();
+    const viewportSize = this.viewport.getViewportSize();
+    const range = getRenderedRows(this.offsets, scrollOffset, viewportSize, BUFFER_SIZE);
+
+    this.viewport.setTotalContentSize(this.offsets[this.offsets.length - 1]);
+    this.viewport.setRenderedRange(range);
+    this.viewport.setRenderedContentOffset(this.offsets[range.start]);
+    this.index$.next(getIndexAtOffset(this.offsets, scrollOffset));
+  }
+}
@@ -1,6 +1,31 @@
 import { Component, Input, Output, EventEmitter, OnInit, OnChanges, SimpleChanges } from '@angular/core';
-import { FilterNode, BooleanNode, FilterCondition, isBooleanNode, isFilterCondition } from '../filter.model';
+import { FieldValueSuggestion, FilterNode, BooleanNode, FilterCondition, isBooleanNode, isFilterCondition } from '../filter.model';
 import { FilterStateService } from '../services/filter-state.service';
+import { CUSTOM_DSL_OPERATOR, normalizeOperator } from '../common/query-dsl-compiler';
+import { DataViewField } from '../data-view.model';
+import { getFieldTypeFamily } from '../common/field-types';
+import { canSuggestValues } from '../common/field-suggestions';
+import { FilterOperatorOption, getOperatorOptions, getRangeBoundError, getSubnetError } from '../common/filter-operators';
+import { describeGeoValue, getGeoValueError, isGeoOperator } from '../common/geo-filters';
+
+// Drag data type of filter tree nodes, so unrelated drags are ignored
+const FILTER_NODE_DRAG_TYPE = 'application/x-filter-node';
+
+// Operators whose value is picked from suggested field values
+const VALUE_SUGGESTION_OPERATORS = ['is', 'is_not', 'is_one_of', 'is_not_one_of'];
+
+// Operators edited with a lower and an upper bound
+const RANGE_VALUE_OPERATORS = ['range', 'is_between', 'is_not_between'];
+
+/**
+ * Drop of a dragged node relative to a target node: before or after it in its group,
+ * onto it (both wrapped in a new group) or inside a group (appended)
+ */
+export interface FilterNodeDropEvent {
+  nodeId: string;
+  targetId: string;
+  position: 'before' | 'after' | 'combine' | 'inside';
+}
 
 @Component({
   selector: 'app-filter-node',
@@ -10,10 +35,10 @@ import { FilterStateService } from '../services/filter-state.service';
 export class FilterNodeComponent implements OnInit, OnChanges {
   @Input() node!: FilterNode;
   @Input() depth: number = 0;
-  @Input() availableFields: string[] = [];
-  @Input() operators: Array<{ label: string; value: string }> = [];
+  @Input() availableFields: DataViewField[] = [];
+  @Input() operators: FilterOperatorOption[] = [];
   @Input() rangeOperators: Array<{ label: string; value: string }> = [];
-  @Input() fieldValuesMap: { [key: string]: string[] } = {};
+  @Input() fieldValuesMap: { [key: string]: FieldValueSuggestion[] } = {};
   @Input() loadingFieldValues: { [key: string]: boolean } = {};
 
   @Output() nodeChange = new EventEmitter<FilterNode>();
@@ -23,11 +48,17 @@ export class FilterNodeComponent implements OnInit, OnChanges {
   @Output() fieldChange = new EventEmitter<{ nodeId: string; field: string }>();
   @Output() operatorChange = new EventEmitter<{ nodeId: string; operator: string }>();
   @Output() valueChange = new EventEmitter<{ nodeId: string; value: any }>();
+  @Output() suggestValues = new EventEmitter<{ nodeId: string; field: string; searchTerm?: string }>();
+  @Output() dropNode = new EventEmitter<FilterNodeDropEvent>();
 
   isBoolean = false;
   isFilter = false;
   booleanNode?: BooleanNode;
   filterCondition?: FilterCondition;
+  customDslError: string | null = null;
+  dropPosition: FilterNodeDropEvent['position'] | null = null;
+  showSuggestions = false;
+  showGeoPicker = false;
 
   constructor(private filterStateService: FilterStateService) {}
 
@@ -52,6 +83,62 @@ export class FilterNodeComponent implements OnInit, OnChanges {
     }
   }
 
+  onDragStart(event: DragEvent): void {
+    if (!event.dataTransfer) return;
+    event.dataTransfer.setData(FILTER_NODE_DRAG_TYPE, this.node.id);
+    event.dataTransfer.effectAllowed = 'move';
+
+    const row = (event.target as HTMLElement).closest('.filter-condition');
+    if (row) {
+      event.dataTransfer.setDragImage(row, 0, 0);
+    }
+  }
+
+  /**
+   * Top quarter drops before the condition, bottom quarter after it, the middle groups both
+   */
+  onConditionDragOver(event: DragEvent): void {
+    if (!this.acceptDrag(event)) return;
+
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    const ratio = rect.height > 0 ? (event.clientY - rect.top) / rect.height : 0.5;
+    this.dropPosition = ratio < 0.25 ? 'before' : ratio > 0.75 ? 'after' : 'combine';
+  }
+
+  onGroupDragOver(event: DragEvent): void {
+    if (!this.acceptDrag(event)) return;
+    this.dropPosition = 'inside';
+  }
+
+  onDragLeave(): void {
+    this.dropPosition = null;
+  }
+
+  onDrop(event: DragEvent): void {
+    const position = this.dropPosition;
+    this.dropPosition = null;
+    if (!position || !event.dataTransfer?.types.includes(FILTER_NODE_DRAG_TYPE)) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    const nodeId = event.dataTransfer.getData(FILTER_NODE_DRAG_TYPE);
+    if (nodeId && nodeId !== this.node.id) {
+      this.dropNode.emit({ nodeId, targetId: this.node.id, position });
+    }
+  }
+
+  /**
+   * Filter node drags are dropped here rather than on the enclosing groups
+   */
+  private acceptDrag(event: DragEvent): boolean {
+    if (!event.dataTransfer?.types.includes(FILTER_NODE_DRAG_TYPE)) return false;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = 'move';
+    return true;
+  }
+
   onAddFilter(operator: 'AND' | 'OR'): void {
     this.addFilter.emit({ parentId: this.node.id, operator });
   }
@@ -71,6 +158,8 @@ export class FilterNodeComponent implements OnInit, OnChanges {
   }
 
   onOperatorChange(operator: string): void {
+    // Geo values are drawn, open the map right away
+    this.showGeoPicker = isGeoOperator(normalizeOperator(operator));
     this.operatorChange.emit({ nodeId: this.node.id, operator });
   }
 
@@ -88,7 +177,96 @@ export class FilterNodeComponent implements OnInit, OnChanges {
     this.filterStateService.modifyFilter(this.node.id, null, updates);
   }
 
-  getFieldValues(field: string): string[] {
+  /**
+   * Custom DSL conditions hold a raw query clause the visual editor can't represent
+   */
+  isCustomDsl(): boolean {
+    return this.filterCondition?.operator === CUSTOM_DSL_OPERATOR;
+  }
+
+  getCustomDslText(): string {
+    return JSON.stringify(this.filterCondition?.value, null, 2);
+  }
+
+  onCustomDslChange(text: string): void {
+    try {
+      const clause = JSON.parse(text);
+      if (!clause || typeof clause !== 'object' || Array.isArray(clause)) {
+        this.customDslError = 'Query DSL must be a JSON object';
+        return;
+      }
+      this.customDslError = null;
+      this.onValueChange(clause);
+    } catch (error: any) {
+      this.customDslError = `Invalid JSON: ${error.message}`;
+    }
+  }
+
+  /**
+   * Whether the value input offers suggested values of the field
+   */
+  hasValueSuggestions(): boolean {
+    const condition = this.filterCondition;
+    return !!condition?.field && !!condition.operator &&
+      VALUE_SUGGESTION_OPERATORS.includes(normalizeOperator(condition.operator)) &&
+      !this.isBooleanField() && this.canSuggestValues(condition.field);
+  }
+
+  /**
+   * Suggestions are reloaded on focus since the rest of the tree may have changed
+   */
+  onValueFocus(): void {
+    this.showSuggestions = true;
+    this.requestSuggestions(this.getSearchTerm(this.filterCondition?.value));
+  }
+
+  onSuggestionInput(value: string): void {
+    this.onValueChange(value);
+    this.showSuggestions = true;
+    this.requestSuggestions(this.getSearchTerm(value));
+  }
+
+  selectSuggestion(value: string, event: MouseEvent): void {
+    // Keep the input focused
+    event.preventDefault();
+    this.onValueChange(value);
+    this.showSuggestions = false;
+  }
+
+  /**
+   * Text typed in the "is one of" chip input
+   */
+  onChipsSearch(searchTerm: string): void {
+    if (this.filterCondition?.field && this.canSuggestValues(this.filterCondition.field)) {
+      this.requestSuggestions(searchTerm);
+    }
+  }
+
+  /**
+   * Range inputs offer the number hints and recent date ranges of the field
+   */
+  onRangeFocus(): void {
+    this.requestSuggestions('');
+  }
+
+  private requestSuggestions(searchTerm: string): void {
+    if (!this.filterCondition?.field) return;
+    this.suggestValues.emit({ nodeId: this.node.id, field: this.filterCondition.field, searchTerm: searchTerm || undefined });
+  }
+
+  /**
+   * "is one of" / "is not one of" take a list of values, entered as chips
+   */
+  isListOperator(): boolean {
+    const operator = normalizeOperator(this.filterCondition?.operator || '');
+    return operator === 'is_one_of' || operator === 'is_not_one_of';
+  }
+
+  private getSearchTerm(value: any): string {
+    return value === undefined || value === null ? '' : String(value).trim();
+  }
+
+  getFieldValues(field: string): FieldValueSuggestion[] {
     const key = `${this.node.id}_${field}`;
     return this.fieldValuesMap[key] || [];
   }
@@ -98,8 +276,86 @@ export class FilterNodeComponent implements OnInit, OnChanges {
     return this.loadingFieldValues[key] || false;
   }
 
-  isKeywordField(field: string): boolean {
-    return field.endsWith('.keyword');
+  getField(name: string | undefined): DataViewField | undefined {
+    return name ? this.availableFields.find(field => field.name === name) : undefined;
+  }
+
+  /**
+   * Operators valid for the selected field's type
+   */
+  getOperatorOptions(): FilterOperatorOption[] {
+    const valid = getOperatorOptions(this.getField(this.filterCondition?.field));
+    return this.operators.filter(operator => valid.some(option => option.value === operator.value));
+  }
+
+  canSuggestValues(field: string): boolean {
+    return canSuggestValues(field, this.getField(field));
+  }
+
+  isBooleanField(): boolean {
+    return getFieldTypeFamily(this.getField(this.filterCondition?.field)?.type) === 'boolean';
+  }
+
+  /**
+   * HTML input type matching the field type
+   */
+  getValueInputType(): string {
+    return getFieldTypeFamily(this.getField(this.filterCondition?.field)?.type) === 'number' ? 'number' : 'text';
+  }
+
+  isDateField(): boolean {
+    return getFieldTypeFamily(this.getField(this.filterCondition?.field)?.type) === 'date';
+  }
+
+  isRangeOperator(): boolean {
+    return RANGE_VALUE_OPERATORS.includes(normalizeOperator(this.filterCondition?.operator || ''));
+  }
+
+  getRangeBoundError(value: any): string | null {
+    return getRangeBoundError(value, this.getField(this.filterCondition?.field));
+  }
+
+  getRangeError(): string | null {
+    return this.getRangeBoundError(this.filterCondition?.minValue) || this.getRangeBoundError(this.filterCondition?.maxValue);
+  }
+
+  isGeoOperator(): boolean {
+    return isGeoOperator(normalizeOperator(this.filterCondition?.operator || ''));
+  }
+
+  getGeoSummary(): string {
+    const operator = normalizeOperator(this.filterCondition?.operator || '');
+    return getGeoValueError(operator, this.filterCondition?.value) || describeGeoValue(operator, this.filterCondition?.value);
+  }
+
+  getSubnetError(): string | null {
+    if (normalizeOperator(this.filterCondition?.operator || '') !== 'is_in_subnet') {
+      return null;
+    }
+    return getSubnetError(this.filterCondition?.value, this.getField(this.filterCondition?.field));
+  }
+
+  getRangeBoundPlaceholder(bound: 'min' | 'max'): string {
+    switch (getFieldTypeFamily(this.getField(this.filterCondition?.field)?.type)) {
+      case 'date':
+        return bound === 'min' ? 'e.g. now-1h' : 'e.g. now';
+      case 'ip':
+        return bound === 'min' ? 'e.g. 10.0.0.0' : 'e.g. 10.0.0.255';
+      default:
+        return bound === 'min' ? 'Min value' : 'Max value';
+    }
+  }
+
+  /**
+   * Opens the browser's date picker; the picked local date is kept in the condition's time zone
+   */
+  openDatePicker(picker: HTMLInputElement): void {
+    const input = picker as HTMLInputElement & { showPicker?: () => void };
+    if (input.showPicker) {
+      input.showPicker();
+    } else {
+      input.click();
+    }
   }
 
   getMinRangeOperators() {
@@ -132,6 +388,23 @@ export class FilterNodeComponent implements OnInit, OnChanges {
       return 'Search';
     }
 
+    if (this.isListOperator()) {
+      return 'Type a value and press Enter, or paste one per line';
+    }
+
+    if (operator === 'is_in_subnet') {
+      return 'e.g. 10.0.0.0/8 or 2001:db8::/32';
+    }
+
+    switch (getFieldTypeFamily(this.getField(field)?.type)) {
+      case 'number':
+        return 'Enter a number';
+      case 'date':
+        return 'e.g. 2024-01-01T00:00:00 or now-1d';
+      case 'ip':
+        return 'e.g. 192.168.0.1';
+    }
+
     return 'Enter value';
   }
 }
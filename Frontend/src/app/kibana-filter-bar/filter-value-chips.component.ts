@@ -0,0 +1,119 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FieldValueSuggestion } from '../filter.model';
+import { getListValues } from '../common/query-dsl-compiler';
+
+// Most values an "is one of" condition takes
+export const MAX_LIST_VALUES = 100;
+
+/**
+ * Chip input for the values of "is one of" / "is not one of".
+ * Values are kept as a string[] so they may contain commas (user agents, URLs...).
+ * Enter adds the typed value, pasting several lines adds one value per line.
+ */
+@Component({
+  selector: 'app-filter-value-chips',
+  templateUrl: './filter-value-chips.component.html',
+  styleUrls: ['./filter-value-chips.component.scss']
+})
+export class FilterValueChipsComponent {
+  @Input() suggestions: FieldValueSuggestion[] = [];
+  @Input() loading: boolean = false;
+  @Input() placeholder: string = 'Enter values';
+  @Input() maxValues: number = MAX_LIST_VALUES;
+  @Output() valuesChange = new EventEmitter<string[]>();
+  // Typed text, to request suggestions for it
+  @Output() search = new EventEmitter<string>();
+
+  values: string[] = [];
+  inputText = '';
+  showSuggestions = false;
+  warning: string | null = null;
+
+  // Accepts legacy comma separated strings as well as arrays
+  @Input() set value(value: any) {
+    this.values = getListValues(value).map(item => String(item));
+  }
+
+  getVisibleSuggestions(): FieldValueSuggestion[] {
+    return this.suggestions.filter(suggestion => !this.values.includes(suggestion.value));
+  }
+
+  onFocus(): void {
+    this.showSuggestions = true;
+    this.search.emit(this.inputText.trim());
+  }
+
+  onInput(text: string): void {
+    this.inputText = text;
+    this.showSuggestions = true;
+    this.search.emit(text.trim());
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      this.addValues([this.inputText]);
+    } else if (event.key === 'Backspace' && !this.inputText && this.values.length > 0) {
+      this.removeValue(this.values.length - 1);
+    } else if (event.key === 'Escape') {
+      this.showSuggestions = false;
+    }
+  }
+
+  /**
+   * Pasting several lines adds one value per line; single-line pastes are typed as-is
+   */
+  onPaste(event: ClipboardEvent): void {
+    const text = event.clipboardData?.getData('text') || '';
+    const lines = text.split(/\r?\n|\t/);
+    if (lines.length < 2) {
+      return;
+    }
+
+    event.preventDefault();
+    this.addValues(lines);
+  }
+
+  selectSuggestion(value: string, event: MouseEvent): void {
+    // Keep the input focused
+    event.preventDefault();
+    this.addValues([value]);
+  }
+
+  removeValue(index: number): void {
+    this.warning = null;
+    this.emitValues(this.values.filter((_, i) => i !== index));
+  }
+
+  /**
+   * Adds trimmed, non-empty values that aren't in the list yet, up to maxValues
+   */
+  addValues(candidates: string[]): void {
+    const values = [...this.values];
+    let dropped = 0;
+
+    candidates
+      .map(candidate => candidate.trim())
+      .filter(candidate => candidate !== '')
+      .forEach(candidate => {
+        if (values.includes(candidate)) return;
+        if (values.length >= this.maxValues) {
+          dropped++;
+          return;
+        }
+        values.push(candidate);
+      });
+
+    this.warning = dropped > 0
+      ? `At most ${this.maxValues} values can be added, ${dropped} ${dropped === 1 ? 'was' : 'were'} left out`
+      : null;
+    this.inputText = '';
+    this.search.emit('');
+    this.emitValues(values);
+  }
+
+  private emitValues(values: string[]): void {
+    this.values = values;
+    this.valuesChange.emit(values);
+  }
+}
@@ -0,0 +1,229 @@
+import { AfterViewInit, Component, ElementRef, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges, ViewChild } from '@angular/core';
+import * as L from 'leaflet';
+import { GeoFilterValue, GeoPoint } from '../filter.model';
+import { DISTANCE_UNITS, getDistanceInMeters, getGeoValueError, parseDistance } from '../common/geo-filters';
+
+const TILE_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+const SHAPE_STYLE: L.PathOptions = { color: '#006bb4', weight: 2, fillOpacity: 0.15 };
+
+/**
+ * Map picker for the value of the geo operators, so areas are drawn rather than typed:
+ * - is within distance of: click the center, then set the distance
+ * - is inside bounding box: drag a box
+ * - is inside polygon: click the vertices, double-click or "Finish" to close it
+ */
+@Component({
+  selector: 'app-geo-filter-picker',
+  templateUrl: './geo-filter-picker.component.html',
+  styleUrls: ['./geo-filter-picker.component.scss']
+})
+export class GeoFilterPickerComponent implements AfterViewInit, OnChanges, OnDestroy {
+  @Input() operator: string = '';
+  @Input() value: any;
+  @Output() valueChange = new EventEmitter<GeoFilterValue>();
+
+  @ViewChild('mapContainer', { static: true }) mapContainer!: ElementRef<HTMLDivElement>;
+
+  readonly distanceUnits = DISTANCE_UNITS;
+  distanceAmount: number = 10;
+  distanceUnit: string = 'km';
+  // Vertices of the polygon being drawn
+  draftPoints: GeoPoint[] = [];
+
+  private map: L.Map | null = null;
+  private shapes = L.layerGroup();
+  private boxStart: L.LatLng | null = null;
+
+  ngAfterViewInit(): void {
+    this.map = L.map(this.mapContainer.nativeElement, { doubleClickZoom: false, worldCopyJump: true });
+    L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 18 }).addTo(this.map);
+    this.shapes.addTo(this.map);
+
+    this.map.on('click', (event: L.LeafletMouseEvent) => this.onMapClick(event.latlng));
+    this.map.on('dblclick', () => this.finishPolygon());
+    this.map.on('mousedown', (event: L.LeafletMouseEvent) => this.onBoxStart(event.latlng));
+    this.map.on('mousemove', (event: L.LeafletMouseEvent) => this.onBoxMove(event.latlng));
+    this.map.on('mouseup', (event: L.LeafletMouseEvent) => this.onBoxEnd(event.latlng));
+
+    this.updateDragging();
+    this.render();
+    this.fitValue();
+
+    // The picker opens inside the filter editor; measure the map once it is laid out
+    setTimeout(() => this.map?.invalidateSize());
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['operator'] && !changes['operator'].firstChange) {
+      this.draftPoints = [];
+      this.updateDragging();
+    }
+    if (changes['value']) {
+      const distance = parseDistance(this.value?.distance);
+      if (distance) {
+        this.distanceAmount = distance.value;
+        this.distanceUnit = distance.unit;
+      }
+    }
+    this.render();
+  }
+
+  ngOnDestroy(): void {
+    this.map?.remove();
+    this.map = null;
+  }
+
+  getHint(): string {
+    switch (this.operator) {
+      case 'geo_distance':
+        return 'Click the map to set the center';
+      case 'geo_bounding_box':
+        return 'Drag on the map to draw a box';
+      case 'geo_polygon':
+        return this.draftPoints.length > 0
+          ? `${this.draftPoints.length} points, double-click to finish`
+          : 'Click the map to add the polygon points';
+      default:
+        return '';
+    }
+  }
+
+  getError(): string | null {
+    return this.draftPoints.length > 0 ? null : getGeoValueError(this.operator, this.value);
+  }
+
+  onDistanceChange(): void {
+    if (this.value?.center && this.distanceAmount > 0) {
+      this.valueChange.emit({ center: this.value.center, distance: `${this.distanceAmount}${this.distanceUnit}` });
+    }
+  }
+
+  finishPolygon(): void {
+    if (this.operator !== 'geo_polygon' || this.draftPoints.length < 3) {
+      return;
+    }
+    const points = this.draftPoints;
+    this.draftPoints = [];
+    this.valueChange.emit({ points });
+  }
+
+  cancelPolygon(): void {
+    this.draftPoints = [];
+    this.render();
+  }
+
+  private onMapClick(latlng: L.LatLng): void {
+    const point = this.toGeoPoint(latlng);
+    if (this.operator === 'geo_distance') {
+      this.valueChange.emit({ center: point, distance: `${this.distanceAmount}${this.distanceUnit}` });
+    } else if (this.operator === 'geo_polygon') {
+      // The clicks of a double-click land on the last point
+      const last = this.draftPoints[this.draftPoints.length - 1];
+      if (!last || last.lat !== point.lat || last.lon !== point.lon) {
+        this.draftPoints = [...this.draftPoints, point];
+        this.render();
+      }
+    }
+  }
+
+  private onBoxStart(latlng: L.LatLng): void {
+    if (this.operator === 'geo_bounding_box') {
+      this.boxStart = latlng;
+    }
+  }
+
+  private onBoxMove(latlng: L.LatLng): void {
+    if (this.boxStart) {
+      this.shapes.clearLayers();
+      L.rectangle(L.latLngBounds(this.boxStart, latlng), SHAPE_STYLE).addTo(this.shapes);
+    }
+  }
+
+  private onBoxEnd(latlng: L.LatLng): void {
+    if (!this.boxStart) {
+      return;
+    }
+    const bounds = L.latLngBounds(this.boxStart, latlng);
+    this.boxStart = null;
+    if (bounds.getNorth() === bounds.getSouth()) {
+      this.render();
+      return;
+    }
+    this.valueChange.emit({
+      topLeft: this.toGeoPoint(bounds.getNorthWest()),
+      bottomRight: this.toGeoPoint(bounds.getSouthEast())
+    });
+  }
+
+  // Dragging the map would pan it instead of drawing the box
+  private updateDragging(): void {
+    if (!this.map) return;
+    if (this.operator === 'geo_bounding_box') {
+      this.map.dragging.disable();
+    } else {
+      this.map.dragging.enable();
+    }
+  }
+
+  /**
+   * Draws the current value, or the polygon being drawn
+   */
+  private render(): void {
+    this.shapes.clearLayers();
+
+    if (this.draftPoints.length > 0) {
+      const latlngs = this.draftPoints.map(point => L.latLng(point.lat, point.lon));
+      L.polyline(latlngs, SHAPE_STYLE).addTo(this.shapes);
+      latlngs.forEach(latlng => L.circleMarker(latlng, { ...SHAPE_STYLE, radius: 4 }).addTo(this.shapes));
+      return;
+    }
+
+    const layer = this.getValueLayer();
+    if (layer) {
+      layer.addTo(this.shapes);
+    }
+  }
+
+  private getValueLayer(): L.Path | null {
+    if (getGeoValueError(this.operator, this.value)) {
+      return null;
+    }
+
+    switch (this.operator) {
+      case 'geo_distance':
+        return L.circle(L.latLng(this.value.center.lat, this.value.center.lon), {
+          ...SHAPE_STYLE,
+          radius: getDistanceInMeters(this.value.distance) || 0
+        });
+      case 'geo_bounding_box':
+        return L.rectangle(L.latLngBounds(
+          L.latLng(this.value.topLeft.lat, this.value.topLeft.lon),
+          L.latLng(this.value.bottomRight.lat, this.value.bottomRight.lon)
+        ), SHAPE_STYLE);
+      case 'geo_polygon':
+        return L.polygon(this.value.points.map((point: GeoPoint) => L.latLng(point.lat, point.lon)), SHAPE_STYLE);
+      default:
+        return null;
+    }
+  }
+
+  private fitValue(): void {
+    if (!this.map) return;
+    const layer = this.getValueLayer();
+    if (layer && layer instanceof L.Polyline) {
+      this.map.fitBounds(layer.getBounds(), { padding: [20, 20] });
+    } else if (layer instanceof L.Circle) {
+      // Circles need a map to compute their bounds
+      this.map.setView(layer.getLatLng(), 8);
+    } else {
+      this.map.setView([20, 0], 2);
+    }
+  }
+
+  private toGeoPoint(latlng: L.LatLng): GeoPoint {
+    const wrapped = latlng.wrap();
+    return { lat: Number(wrapped.lat.toFixed(6)), lon: Number(wrapped.lng.toFixed(6)) };
+  }
+}
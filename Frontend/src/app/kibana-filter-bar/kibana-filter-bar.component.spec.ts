@@ -1,4 +1,6 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { FormsModule } from '@angular/forms';
 
 import { KibanaFilterBarComponent } from './kibana-filter-bar.component';
 
@@ -8,6 +10,7 @@ describe('KibanaFilterBarComponent', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
+      imports: [ HttpClientTestingModule, FormsModule ],
       declarations: [ KibanaFilterBarComponent ]
     })
     .compileComponents();
@@ -20,4 +23,49 @@ describe('KibanaFilterBarComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  describe('undo shortcut', () => {
+    let elements: HTMLElement[] = [];
+
+    // Dispatches Ctrl+Z (Ctrl+Shift+Z with shift) from an element of the page
+    const pressUndo = (target: HTMLElement, shiftKey: boolean = false) => {
+      elements.push(target);
+      document.body.appendChild(target);
+      target.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, shiftKey, bubbles: true }));
+    };
+
+    beforeEach(() => {
+      component.isVisible = true;
+      spyOn(component, 'undo');
+      spyOn(component, 'redo');
+    });
+
+    afterEach(() => {
+      elements.forEach(element => element.remove());
+      elements = [];
+    });
+
+    it('undoes and redoes tree edits from selects', () => {
+      pressUndo(document.createElement('select'));
+      expect(component.undo).toHaveBeenCalled();
+
+      pressUndo(document.createElement('select'), true);
+      expect(component.redo).toHaveBeenCalled();
+    });
+
+    it('undoes tree edits from value inputs, which commit as they are typed', () => {
+      const input = document.createElement('input');
+      input.value = 'GET';
+      pressUndo(input);
+      expect(component.undo).toHaveBeenCalled();
+    });
+
+    it('leaves draft text to its native undo', () => {
+      const input = document.createElement('input');
+      input.setAttribute('data-draft-text', '');
+      input.value = 'Blocked requests';
+      pressUndo(input);
+      expect(component.undo).not.toHaveBeenCalled();
+    });
+  });
 });
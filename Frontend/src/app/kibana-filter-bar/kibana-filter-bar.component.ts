@@ -1,555 +1,401 @@
-import { Component, OnInit, OnChanges, SimpleChanges, Input, Output, EventEmitter } from '@angular/core';
+import { Component, OnInit, OnChanges, OnDestroy, SimpleChanges, Input, Output, EventEmitter, HostListener } from '@angular/core';
 import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
-import { Filter, FilterGroup } from '../filter.model';
+import { of, Subject, Subscription } from 'rxjs';
+import { catchError, debounceTime, map, switchMap } from 'rxjs/operators';
+import { FieldValueSuggestion, FilterCondition, FilterGroup, FilterNode, FilterTree, isBooleanNode, isFilterCondition } from '../filter.model';
+import { DataView, DataViewField } from '../data-view.model';
 import { FilterService } from '../services/filter.service';
-import { FormBuilder, FormGroup, FormArray, Validators } from '@angular/forms';
+import { FilterStateService } from '../services/filter-state.service';
+import { FieldSuggestionService } from '../services/field-suggestion.service';
+import { compileFilterTree, compileNodeContext, CUSTOM_DSL_OPERATOR, hasRangeBound, normalizeOperator, QueryClause } from '../common/query-dsl-compiler';
+import { parseQueryDSL } from '../common/query-dsl-parser';
+import { buildFieldTypeMap, FieldTypeMap, getFieldTypeFamily } from '../common/field-types';
+import { canSuggestValues } from '../common/field-suggestions';
+import { FilterNodeDropEvent } from './filter-node.component';
+import { FILTER_OPERATORS, FilterOperatorOption, getRangeBoundError, getSubnetError, isOperatorValidForField, RANGE_OPERATORS } from '../common/filter-operators';
+import { getBrowserTimeZone } from '../common/time-range';
+import { getGeoValueError, isGeoOperator } from '../common/geo-filters';
+
+// Pause in typing before value suggestions are requested
+const SUGGESTION_DEBOUNCE_MS = 300;
 
 @Component({
   selector: 'app-kibana-filter-bar',
   templateUrl: './kibana-filter-bar.component.html',
   styleUrls: ['./kibana-filter-bar.component.scss']
 })
-export class KibanaFilterBarComponent implements OnInit, OnChanges {
+export class KibanaFilterBarComponent implements OnInit, OnChanges, OnDestroy {
   @Input() isVisible: boolean = false;
+  @Input() activeFilters: FilterGroup | null = null;
+  @Input() dataView: DataView | null = null;
   @Output() filtersApplied = new EventEmitter<any>();
   @Output() closeFilterBar = new EventEmitter<void>();
 
-  filterForm: FormGroup;
-  availableFields: string[] = [];
+  filterTree: FilterTree;
+  availableFields: DataViewField[] = [];
+  fieldTypes: FieldTypeMap = {};
   showQueryDSL: boolean = false;
   queryDSL: string = '';
+  queryDSLError: string | null = null;
   customLabel: string = '';
   previewText: string = '';
   previewHtml: SafeHtml = '';
-  fieldValuesMap: { [key: string]: string[] } = {};
-  loadingFieldValues: { [key: number]: boolean } = {};
-
-// Kibana filter operators - using standard format for consistency
-operators = [
-  { label: 'is', value: 'is' },
-  { label: 'is not', value: 'is_not' },
-  { label: 'is one of', value: 'is_one_of' },
-  { label: 'is not one of', value: 'is_not_one_of' },
-  { label: 'exists', value: 'exists' },
-  { label: 'does not exist', value: 'does_not_exist' },
-  { label: 'range', value: 'range' },
-  { label: 'prefix', value: 'prefix' },
-  { label: 'wildcard', value: 'wildcard' },
-  { label: 'query_string', value: 'query_string' },
-];
+  fieldValuesMap: { [key: string]: FieldValueSuggestion[] } = {};
+  loadingFieldValues: { [key: string]: boolean } = {};
 
-// Range operators for min and max values
-rangeOperators = [
-  { label: 'Greater Than', value: 'gt' },
-  { label: 'Greater Than/Equal To', value: 'gte' },
-  { label: 'Less Than', value: 'lt' },
-  { label: 'Less Than/Equal To', value: 'lte' },
-];
-
-// Get range operators for min (greater than options)
-getMinRangeOperators() {
-  return this.rangeOperators.filter(op => op.value === 'gt' || op.value === 'gte');
-}
+  private treeSubscription?: Subscription;
+  private suggestionSubscription?: Subscription;
+  // Value suggestion requests; only the latest one is sent once typing pauses
+  private suggestionRequests = new Subject<{ key: string; nodeId: string; field: string; searchTerm?: string }>();
+  // Tree that was applied when the editor opened, restored by "Cancel"
+  private treeOnOpen: FilterTree | null = null;
 
-// Get range operators for max (less than options)
-getMaxRangeOperators() {
-  return this.rangeOperators.filter(op => op.value === 'lt' || op.value === 'lte');
-}
+// Kibana filter operators, narrowed per field type by each filter node
+operators: FilterOperatorOption[] = FILTER_OPERATORS;
+
+// Range operators for min and max values
+rangeOperators: FilterOperatorOption[] = RANGE_OPERATORS;
 
   constructor(
-    private fb: FormBuilder,
     private filterService: FilterService,
+    private filterStateService: FilterStateService,
+    private fieldSuggestionService: FieldSuggestionService,
     private sanitizer: DomSanitizer
   ) {
-    this.filterForm = this.fb.group({
-      filters: this.fb.array([])
-    });
+    this.filterTree = this.filterStateService.getFilterTree();
     this.previewHtml = this.sanitizer.bypassSecurityTrustHtml('');
   }
 
   ngOnInit(): void {
+    this.treeSubscription = this.filterStateService.filterTree$.subscribe(tree => {
+      this.filterTree = tree;
+      this.updatePreview();
+      if (this.showQueryDSL) {
+        this.generateQueryDSL();
+      }
+    });
+
+    this.suggestionSubscription = this.suggestionRequests.pipe(
+      debounceTime(SUGGESTION_DEBOUNCE_MS),
+      // A newer request cancels the one in flight
+      switchMap(request => this.fieldSuggestionService
+        .getSuggestions({
+          fieldName: request.field,
+          field: this.getField(request.field),
+          searchTerm: request.searchTerm,
+          dataViewId: this.dataView?.id,
+          context: this.getSuggestionContext(request.nodeId)
+        })
+        .pipe(
+          map(values => ({ request, values })),
+          catchError(error => {
+            console.error('Error loading field values:', error);
+            return of({ request, values: [] as FieldValueSuggestion[] });
+          })
+        ))
+    ).subscribe(({ request, values }) => {
+      this.fieldValuesMap[request.key] = values;
+      this.loadingFieldValues[request.key] = false;
+    });
+
     this.loadAvailableFields();
-    if (this.filters.length === 0) {
-      this.addFilter();
-    }
+    this.loadActiveFilters();
   }
 
   ngOnChanges(changes: SimpleChanges): void {
     if (changes['isVisible'] && changes['isVisible'].currentValue === true) {
-      // Reset form when filter bar is opened
-      if (this.filters.length === 0) {
-        this.addFilter();
-      }
-    } else if (changes['isVisible'] && changes['isVisible'].currentValue === false) {
-      // Optionally reset when closed
-      // this.resetForm();
+      // Start editing from the applied tree when the filter bar is opened
+      this.loadActiveFilters();
+    }
+
+    // Fields and their values depend on the data view
+    const dataViewChange = changes['dataView'];
+    if (dataViewChange && !dataViewChange.firstChange &&
+        dataViewChange.previousValue?.id !== dataViewChange.currentValue?.id) {
+      this.fieldValuesMap = {};
+      this.loadAvailableFields();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.treeSubscription) {
+      this.treeSubscription.unsubscribe();
+    }
+    if (this.suggestionSubscription) {
+      this.suggestionSubscription.unsubscribe();
+    }
+  }
+
+  /**
+   * Loads the applied filter tree into the editor, or a single empty condition if none is applied
+   */
+  loadActiveFilters(): void {
+    this.treeOnOpen = this.activeFilters?.tree || null;
+
+    if (this.activeFilters && this.activeFilters.tree && this.activeFilters.tree.root) {
+      this.filterStateService.setFilterTree(this.activeFilters.tree);
+      this.customLabel = this.activeFilters.customLabel || '';
+    } else if (!this.filterTree.root) {
+      this.filterStateService.initializeWithFilter({});
+    }
+
+    // Undo starts at the tree the editor opened with
+    this.filterStateService.clearHistory();
+  }
+
+  /**
+   * Ctrl+Z / Cmd+Z undoes the last tree edit, with Shift it redoes.
+   * Text that isn't in the tree yet keeps its native undo, and so does the Query DSL editor.
+   */
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    if (!this.isVisible || this.showQueryDSL || !(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') {
+      return;
+    }
+    if (this.hasDraftText(event.target)) {
+      return;
+    }
+
+    event.preventDefault();
+    if (event.shiftKey) {
+      this.redo();
+    } else {
+      this.undo();
+    }
+  }
+
+  /**
+   * Whether the event comes from typed text the tree doesn't hold yet: fields marked
+   * data-draft-text (custom label, value chip being typed, custom DSL) once they have text.
+   * Selects, checkboxes and value inputs commit as they change and use the tree undo.
+   */
+  private hasDraftText(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) {
+      return false;
+    }
+    if (target.isContentEditable) {
+      return true;
     }
+    return target.hasAttribute('data-draft-text') && !!(target as HTMLInputElement).value;
   }
 
-  get filters(): FormArray {
-    return this.filterForm.get('filters') as FormArray;
+  undo(): void {
+    this.filterStateService.undo();
+  }
+
+  redo(): void {
+    this.filterStateService.redo();
+  }
+
+  canUndo(): boolean {
+    return this.filterStateService.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.filterStateService.canRedo();
   }
 
   loadAvailableFields(): void {
-    this.filterService.getFields().subscribe(
-      (fields: string[]) => {
-        this.availableFields = fields;
+    this.filterService.getFields(this.dataView?.id).subscribe(
+      (fields: DataViewField[]) => {
+        this.setAvailableFields(fields);
       },
       (error) => {
         console.error('Error loading fields:', error);
-        // Fallback fields if API fails - using web-l* index fields
-        this.availableFields = [
-          '@timestamp',
-          '@version',
-          '@version.keyword',
-          'agent',
-          'agent.keyword',
-          'auth',
-          'auth.keyword',
-          'bytes',
-          'bytes.keyword',
-          'clientip',
-          'clientip.keyword',
-          'event.original',
-          'event.original.keyword',
-          'host.name',
-          'host.name.keyword',
-          'httpversion',
-          'httpversion.keyword',
-          'ident',
-          'ident.keyword',
-          'log.file.path',
-          'log.file.path.keyword',
-          'message',
-          'message.keyword',
-          'referrer',
-          'referrer.keyword',
-          'request',
-          'request.keyword',
-          'response',
-          'response.keyword',
-          'tags',
-          'tags.keyword',
-          'timestamp',
-          'timestamp.keyword',
-          'verb',
-          'verb.keyword',
-        ];
+        // Fall back to the field catalog loaded with the data view
+        this.setAvailableFields(this.dataView?.fields || []);
       }
     );
   }
 
-  isKeywordField(field: string): boolean {
-    return field.endsWith('.keyword');
+  private setAvailableFields(fields: DataViewField[]): void {
+    this.availableFields = fields;
+    this.fieldTypes = buildFieldTypeMap(fields);
+  }
+
+  getField(name: string): DataViewField | undefined {
+    return this.availableFields.find(field => field.name === name);
   }
 
-  loadFieldValues(index: number, field: string, searchTerm?: string): void {
-    if (!this.isKeywordField(field)) {
+  /**
+   * Absolute dates typed into date ranges are read in the browser's time zone
+   */
+  private getRangeTimeZone(field: string): string | undefined {
+    return getFieldTypeFamily(this.getField(field)?.type) === 'date' ? getBrowserTimeZone() : undefined;
+  }
+
+  /**
+   * Requests value suggestions for a condition, debounced and cancelled by newer requests
+   */
+  loadFieldValues(nodeId: string, field: string, searchTerm?: string): void {
+    if (!canSuggestValues(field, this.getField(field))) {
       return;
     }
 
-    this.loadingFieldValues[index] = true;
-    this.filterService.getFieldValues(field, searchTerm).subscribe(
-      (values: string[]) => {
-        this.fieldValuesMap[`${index}_${field}`] = values;
-        this.loadingFieldValues[index] = false;
-      },
-      (error) => {
-        console.error('Error loading field values:', error);
-        this.fieldValuesMap[`${index}_${field}`] = [];
-        this.loadingFieldValues[index] = false;
-      }
-    );
+    const key = `${nodeId}_${field}`;
+    // Earlier requests are superseded, so only this one is loading
+    this.loadingFieldValues = { [key]: true };
+    this.suggestionRequests.next({ key, nodeId, field, searchTerm });
   }
 
-  getFieldValues(index: number, field: string): string[] {
-    return this.fieldValuesMap[`${index}_${field}`] || [];
+  onSuggestValues(event: { nodeId: string; field: string; searchTerm?: string }): void {
+    this.loadFieldValues(event.nodeId, event.field, event.searchTerm);
   }
 
   /**
-   * Adds a new filter. If it's the first filter (index 0), it has no logic operator.
-   * Subsequent filters default to 'AND' logic unless specified.
-   * 
-   * @param logic The logic operator ('AND' or 'OR') to use for the new filter. 
-   *              For the first filter, this is ignored and set to empty string.
+   * Query DSL of the conditions a node is combined with (its AND siblings and ancestors' siblings),
+   * so suggestions only offer values that can still match
    */
-  addFilter(logic: 'AND' | 'OR' = 'AND'): void {
-    // First filter should have no logic operator (it's the base filter)
-    const isFirstFilter = this.filters.length === 0;
-    const filterLogic = isFirstFilter ? '' : logic;
-    
-    const filterGroup = this.fb.group({
-      field: ['', Validators.required],
-      operator: ['', Validators.required],
-      value: [''],
-      logic: [filterLogic], // Empty for first filter, specified logic for others
-      // Range-specific fields
-      minOperator: ['gt'],
-      minValue: [''],
-      maxOperator: ['lt'],
-      maxValue: ['']
-    });
+  private getSuggestionContext(nodeId: string): QueryClause | undefined {
+    const context = compileNodeContext(this.filterTree.root, nodeId, this.fieldTypes);
+    return context['match_all'] ? undefined : context;
+  }
 
-    this.filters.push(filterGroup);
-    this.updatePreview();
+  /**
+   * Adds a new condition next to the clicked node.
+   * The tree decides whether it joins the node's group or wraps the node in a new AND/OR group.
+   */
+  onAddFilter(event: { parentId: string; operator: 'AND' | 'OR' }): void {
+    this.filterStateService.addFilter(event.parentId, event.operator, {});
   }
 
-  removeFilter(index: number): void {
-    this.filters.removeAt(index);
-    // After removing a filter, update logic of remaining filters
-    // The first filter should have no logic, subsequent filters keep their logic
-    if (this.filters.length > 0 && index === 0) {
-      // If we removed the first filter, the new first filter should have no logic
-      const firstFilter = this.filters.at(0);
-      if (firstFilter) {
-        firstFilter.get('logic')?.setValue('');
-      }
+  onRemoveFilter(nodeId: string): void {
+    this.filterStateService.removeFilter(nodeId);
+    // Keep one empty condition so the editor never renders blank
+    if (!this.filterStateService.getFilterTree().root) {
+      this.filterStateService.initializeWithFilter({});
     }
-    this.updatePreview();
+  }
+
+  onToggleOperator(nodeId: string): void {
+    this.filterStateService.toggleOperator(nodeId);
   }
 
   /**
-   * Adds a new filter with the specified logic immediately after the filter at the given index.
-   * This matches Kibana 8.18.1 behavior where clicking "Add OR filter" or "Add AND filter" 
-   * inserts a new filter right after the current one.
-   * 
-   * @param index The index of the filter row where the button was clicked
-   * @param logic The logic operator ('AND' or 'OR') to use for the new filter
+   * Moves a dragged node next to the target, into a group, or groups it with the target
    */
-  addFilterWithLogic(index: number, logic: 'AND' | 'OR'): void {
-    // Create new filter group with the specified logic
-    const filterGroup = this.fb.group({
-      field: ['', Validators.required],
-      operator: ['', Validators.required],
-      value: [''],
-      logic: [logic], // Set the logic for this new filter
-      // Range-specific fields
-      minOperator: ['gt'],
-      minValue: [''],
-      maxOperator: ['lt'],
-      maxValue: ['']
-    });
+  onDropNode(event: FilterNodeDropEvent): void {
+    const { nodeId, targetId, position } = event;
 
-    // Insert the new filter immediately after the current filter (at index + 1)
-    // This matches Kibana's behavior where the new filter appears right below the clicked row
-    this.filters.insert(index + 1, filterGroup);
-    this.updatePreview();
+    if (position === 'combine') {
+      this.filterStateService.combineNodes(nodeId, targetId);
+      return;
+    }
+
+    if (position === 'inside') {
+      const group = this.filterStateService.findNodeById(targetId);
+      if (group && isBooleanNode(group)) {
+        const index = group.children.filter(child => child.id !== nodeId).length;
+        this.filterStateService.moveNode(nodeId, targetId, index);
+      }
+      return;
+    }
+
+    // Before/after: the index among the siblings once the dragged node is taken out
+    const parent = this.filterStateService.findParentNode(targetId);
+    if (!parent) {
+      return;
+    }
+    const siblings = parent.children.filter(child => child.id !== nodeId);
+    const index = siblings.findIndex(child => child.id === targetId) + (position === 'after' ? 1 : 0);
+    this.filterStateService.moveNode(nodeId, parent.id, index);
   }
 
-  onFieldChange(index: number): void {
-    const filter = this.filters.at(index);
-    const operator = filter.get('operator')?.value;
-    const field = filter.get('field')?.value;
-    
-    // Reset value when field changes
-    filter.get('value')?.setValue('');
-    
-    if (field && !operator) {
-      filter.get('operator')?.setValue('');
+  onFieldChange(event: { nodeId: string; field: string }): void {
+    const condition = this.filterStateService.findNodeById(event.nodeId) as FilterCondition | null;
+    let operator = normalizeOperator(condition?.operator || '');
+
+    // Reset value when field changes, and the operator when the new field's type doesn't support it
+    const updates: Partial<FilterCondition> = { field: event.field, value: '', timeZone: this.getRangeTimeZone(event.field) };
+    if (operator && !isOperatorValidForField(operator, this.getField(event.field))) {
+      operator = '';
+      updates.operator = '';
     }
-    
+    this.filterStateService.modifyFilter(event.nodeId, null, updates);
+
     // Load field values if it's a keyword field and operator is selected
     // This enables real-time dropdown population from Elasticsearch
-    const normalizedOperator = this.normalizeOperator(operator);
-    if (field && operator && this.isKeywordField(field) && 
-        normalizedOperator !== 'exists' && normalizedOperator !== 'does_not_exist') {
-      this.loadFieldValues(index, field);
-    }
-    
-    this.updatePreview();
-  }
-
-  onOperatorChange(index: number): void {
-    const filter = this.filters.at(index);
-    const operator = filter.get('operator')?.value;
-    const field = filter.get('field')?.value;
-    
-    // Normalize operator values for consistency
-    const normalizedOperator = this.normalizeOperator(operator);
-    
-    if (normalizedOperator === 'exists' || normalizedOperator === 'does_not_exist' || 
-        normalizedOperator === 'notExists') {
-      filter.get('value')?.setValue('');
-    } else if (normalizedOperator === 'range') {
-      // Reset range values when switching to range
-      filter.get('value')?.setValue('');
-      filter.get('minOperator')?.setValue('gt');
-      filter.get('minValue')?.setValue('');
-      filter.get('maxOperator')?.setValue('lt');
-      filter.get('maxValue')?.setValue('');
-    } else if (normalizedOperator === 'prefix') {
-      // Reset value when switching to prefix
-      filter.get('value')?.setValue('');
-    } else if (normalizedOperator === 'wildcard') {
-      // Reset value when switching to wildcard
-      filter.get('value')?.setValue('');
-    } else if (normalizedOperator === 'query_string') {
-      // Reset value when switching to query_string
-      filter.get('value')?.setValue('');
-    } else if (field && this.isKeywordField(field)) {
-      // Load field values when operator is selected for keyword field
-      // This enables real-time dropdown population from Elasticsearch
-      this.loadFieldValues(index, field);
+    if (event.field && operator && operator !== 'exists' && operator !== 'does_not_exist') {
+      this.loadFieldValues(event.nodeId, event.field);
     }
-    
-    this.updatePreview();
   }
 
-  /**
-   * Builds Kibana 8.18.1 style preview with proper parentheses for nested Boolean logic.
-   * Matches Kibana's exact behavior:
-   * - Shows parentheses when operators differ between adjacent filters
-   * - Groups filters with same operator together
-   * - Right-associative nesting: A OR B AND C → "A OR (B AND C)"
-   * 
-   * Examples:
-   * - A OR B OR C → "A OR B OR C"
-   * - A AND B AND C → "A AND B AND C"
-   * - A OR B AND C → "A OR (B AND C)"
-   * - A AND B OR C AND D → "A AND (B OR (C AND D))"
-   * - A OR B AND C OR D → "A OR (B AND (C OR D))"
-   */
-  buildKibanaPreview(filters: Array<{ text: string; logic: string; hasNot: boolean }>): string {
-    if (filters.length === 0) {
-      return '';
-    }
-
-    if (filters.length === 1) {
-      return filters[0].hasNot ? `NOT ${filters[0].text}` : filters[0].text;
-    }
-
-    // Extract logic operators (first filter has no logic operator)
-    const operators: Array<'AND' | 'OR' | null> = [null];
-    for (let i = 1; i < filters.length; i++) {
-      operators.push((filters[i].logic || 'AND') as 'AND' | 'OR');
-    }
-
-    // Check if all operators are the same
-    const allOperators = operators.slice(1);
-    const allSame = allOperators.every(op => op === allOperators[0]);
-
-    if (allSame) {
-      // All same operator - no parentheses needed
-      const parts: string[] = [];
-      filters.forEach((filter, idx) => {
-        if (idx > 0) {
-          parts.push(operators[idx]!);
-        }
-        parts.push(filter.hasNot ? `NOT ${filter.text}` : filter.text);
-      });
-      return parts.join(' ');
-    }
-
-    // Different operators - build right-associatively from right to left
-    // Process filters from right to left, nesting when operators change
-    
-    let result = filters[filters.length - 1].hasNot 
-      ? `NOT ${filters[filters.length - 1].text}` 
-      : filters[filters.length - 1].text;
-
-    // Build from right to left, nesting when operator changes
-    // operators[i] is the operator BEFORE filter[i] (between filter[i-1] and filter[i])
-    for (let i = filters.length - 2; i >= 0; i--) {
-      // The operator between filter[i] and filter[i+1] is operators[i+1]
-      const currentOp = operators[i + 1]!;
-      const currentFilter = filters[i];
-      const currentFilterText = currentFilter.hasNot 
-        ? `NOT ${currentFilter.text}` 
-        : currentFilter.text;
-
-      // Check if result needs parentheses
-      // Result needs parentheses if it starts with a different operator than current
-      // We can check this by looking at the operator used to build the current result
-      let needsParens = false;
-      if (i + 1 < filters.length - 1) {
-        // The operator that was used to build 'result' is operators[i+2]
-        // (the operator between filter[i+1] and filter[i+2], which is what we just processed)
-        const resultOp = operators[i + 2]!;
-        needsParens = resultOp !== currentOp;
-      }
+  onOperatorChange(event: { nodeId: string; operator: string }): void {
+    const condition = this.filterStateService.findNodeById(event.nodeId) as FilterCondition | null;
+    const field = condition?.field || '';
+    const normalizedOperator = normalizeOperator(event.operator);
 
-      result = `${currentFilterText} ${currentOp} ${needsParens ? `(${result})` : result}`;
+    const isList = normalizedOperator === 'is_one_of' || normalizedOperator === 'is_not_one_of';
+    const updates: Partial<FilterCondition> = { operator: normalizedOperator, value: isList ? [] : '' };
+    if (normalizedOperator === 'range') {
+      // Reset range values when switching to range
+      updates.minOperator = 'gt';
+      updates.maxOperator = 'lt';
     }
+    if (['range', 'is_between', 'is_not_between'].includes(normalizedOperator)) {
+      updates.minValue = '';
+      updates.maxValue = '';
+      updates.timeZone = this.getRangeTimeZone(field);
+    }
+    this.filterStateService.modifyFilter(event.nodeId, null, updates);
 
-    return result;
-  }
-
-  updatePreview(): void {
-    const filterArray = this.filters.value;
-    if (filterArray.length === 0) {
-      this.previewText = '';
-      this.previewHtml = '';
-      return;
+    if (field && ['is', 'is_not', 'is_one_of', 'is_not_one_of'].includes(normalizedOperator)) {
+      // Load field values when operator is selected for keyword field
+      this.loadFieldValues(event.nodeId, field);
     }
+  }
 
-    // Build filter expressions
-    interface FilterExpr {
-      text: string;
-      logic: string;
-      hasNot: boolean;
-    }
-    
-    const filterExpressions: FilterExpr[] = [];
-    filterArray.forEach((filter: any, index: number) => {
-      if (filter.field && filter.operator) {
-        const normalizedOperator = this.normalizeOperator(filter.operator);
-        let filterText = '';
-        let hasNot = false;
-        
-        // Format: field: value or NOT field: value
-        if (normalizedOperator === 'exists') {
-          filterText = `${filter.field}: exists`;
-        } else if (normalizedOperator === 'does_not_exist') {
-          filterText = `${filter.field}: exists`;
-          hasNot = true;
-        } else if (normalizedOperator === 'range') {
-          // Format range query: field: [minOp minValue] to [maxOp maxValue]
-          const rangeParts: string[] = [];
-          if (filter.minValue) {
-            const minOpLabel = this.getRangeOperatorLabel(filter.minOperator || 'gt');
-            rangeParts.push(`${minOpLabel} ${filter.minValue}`);
-          }
-          if (filter.maxValue) {
-            const maxOpLabel = this.getRangeOperatorLabel(filter.maxOperator || 'lt');
-            rangeParts.push(`${maxOpLabel} ${filter.maxValue}`);
-          }
-          if (rangeParts.length > 0) {
-            filterText = `${filter.field}: ${rangeParts.join(' and ')}`;
-          } else {
-            filterText = `${filter.field}: -`;
-          }
-        } else if (normalizedOperator === 'prefix') {
-          // Format prefix query: field: prefix "value"
-          const value = filter.value || '-';
-          filterText = `${filter.field}: prefix "${value}"`;
-        } else if (normalizedOperator === 'wildcard') {
-          // Format wildcard query: field: wildcard "value"
-          const value = filter.value || '-';
-          filterText = `${filter.field}: wildcard "${value}"`;
-        } else if (normalizedOperator === 'query_string') {
-          // Format query_string query: field: query_string "value"
-          const value = filter.value || '-';
-          filterText = `${filter.field}: query_string "${value}"`;
-        } else if (normalizedOperator === 'is_not') {
-          // For "is not", show as NOT field: value
-          const value = filter.value || '-';
-          filterText = `${filter.field}: ${value}`;
-          hasNot = true;
-        } else if (filter.value) {
-          filterText = `${filter.field}: ${filter.value}`;
-        } else {
-          filterText = `${filter.field}: -`;
-        }
-
-        filterExpressions.push({
-          text: filterText,
-          logic: index > 0 ? (filter.logic || 'AND') : '',
-          hasNot: hasNot
-        });
-      }
-    });
+  onValueChange(event: { nodeId: string; value: any }): void {
+    this.filterStateService.modifyFilter(event.nodeId, null, { value: event.value });
+  }
 
-    if (filterExpressions.length === 0) {
+  /**
+   * Builds Kibana 8.18.1 style preview with proper parentheses for nested Boolean logic.
+   * Parentheses follow the tree: a group is wrapped whenever its operator differs from its parent's,
+   * e.g. "(A OR B) AND (C OR NOT D)".
+   */
+  updatePreview(): void {
+    if (!this.filterTree.root || !this.hasCompleteCondition(this.filterTree.root)) {
       this.previewText = '';
       this.previewHtml = this.sanitizer.bypassSecurityTrustHtml('');
       return;
     }
 
-    // Use Kibana-style preview builder
-    const previewText = this.buildKibanaPreview(filterExpressions);
-    this.previewText = previewText;
-
-    // Build HTML version with styled operators
-    const htmlPreview = this.buildKibanaPreviewHtml(filterExpressions);
-    this.previewHtml = this.sanitizer.bypassSecurityTrustHtml(htmlPreview);
+    this.previewText = this.filterStateService.generatePreview();
+    this.previewHtml = this.sanitizer.bypassSecurityTrustHtml(this.buildPreviewHtml(this.filterTree.root));
   }
 
   /**
-   * Builds HTML version of Kibana preview with styled operators, filters, and parentheses
-   * Matches Kibana's exact visual representation with proper nesting
+   * Builds HTML version of the preview with styled operators, filters, and parentheses
    */
-  buildKibanaPreviewHtml(filters: Array<{ text: string; logic: string; hasNot: boolean }>): string {
-    if (filters.length === 0) {
-      return '';
+  private buildPreviewHtml(node: FilterNode, parentOperator?: 'AND' | 'OR'): string {
+    if (isFilterCondition(node)) {
+      const text = `<span class="preview-field">${this.escapeHtml(this.filterStateService.describeCondition(node))}</span>`;
+      return this.filterStateService.isNegatedFilter(node) ? `<span class="preview-not">NOT</span> ${text}` : text;
     }
 
-    if (filters.length === 1) {
-      const filter = filters[0];
-      if (filter.hasNot) {
-        return `<span class="preview-not">NOT</span> <span class="preview-field">${this.escapeHtml(filter.text)}</span>`;
-      }
-      return `<span class="preview-field">${this.escapeHtml(filter.text)}</span>`;
-    }
-
-    // Extract logic operators
-    const operators: Array<'AND' | 'OR' | null> = [null];
-    for (let i = 1; i < filters.length; i++) {
-      operators.push((filters[i].logic || 'AND') as 'AND' | 'OR');
-    }
+    if (isBooleanNode(node)) {
+      const joined = node.children
+        .map(child => this.buildPreviewHtml(child, node.operator))
+        .join(` <span class="preview-operator">${node.operator}</span> `);
 
-    // Check if all operators are the same
-    const allOperators = operators.slice(1);
-    const allSame = allOperators.every(op => op === allOperators[0]);
-
-    if (allSame) {
-      // All same operator - no parentheses needed
-      const parts: string[] = [];
-      filters.forEach((filter, idx) => {
-        if (idx > 0) {
-          parts.push(` <span class="preview-operator">${operators[idx]}</span> `);
-        }
-        if (filter.hasNot) {
-          parts.push(`<span class="preview-not">NOT</span> <span class="preview-field">${this.escapeHtml(filter.text)}</span>`);
-        } else {
-          parts.push(`<span class="preview-field">${this.escapeHtml(filter.text)}</span>`);
-        }
-      });
-      return parts.join('');
+      if (parentOperator && parentOperator !== node.operator) {
+        return `<span class="preview-group">(${joined})</span>`;
+      }
+      return joined;
     }
 
-    // Different operators - build with parentheses (right-associative)
-    return this.buildNestedPreviewHtml(filters, operators);
+    return '';
   }
 
   /**
-   * Builds nested HTML preview with parentheses for mixed operators
+   * Checks whether any condition below the node has both a field and an operator
    */
-  private buildNestedPreviewHtml(
-    filters: Array<{ text: string; logic: string; hasNot: boolean }>,
-    operators: Array<'AND' | 'OR' | null>
-  ): string {
-    if (filters.length === 1) {
-      const filter = filters[0];
-      if (filter.hasNot) {
-        return `<span class="preview-not">NOT</span> <span class="preview-field">${this.escapeHtml(filter.text)}</span>`;
-      }
-      return `<span class="preview-field">${this.escapeHtml(filter.text)}</span>`;
-    }
-
-    // Build from right to left (right-associative, matching Kibana)
-    let result = filters[filters.length - 1].hasNot
-      ? `<span class="preview-not">NOT</span> <span class="preview-field">${this.escapeHtml(filters[filters.length - 1].text)}</span>`
-      : `<span class="preview-field">${this.escapeHtml(filters[filters.length - 1].text)}</span>`;
-
-    // Build from right to left, nesting when operator changes
-    for (let i = filters.length - 2; i >= 0; i--) {
-      const currentOp = operators[i + 1]!;
-      const currentFilter = filters[i];
-      const currentFilterHtml = currentFilter.hasNot
-        ? `<span class="preview-not">NOT</span> <span class="preview-field">${this.escapeHtml(currentFilter.text)}</span>`
-        : `<span class="preview-field">${this.escapeHtml(currentFilter.text)}</span>`;
-
-      // Check if result needs parentheses (same logic as text version)
-      let needsParens = false;
-      if (i + 1 < filters.length - 1) {
-        const resultOp = operators[i + 2]!;
-        needsParens = resultOp !== currentOp;
-      }
-
-      result = `${currentFilterHtml} <span class="preview-operator">${currentOp}</span> ${needsParens ? `<span class="preview-group">(${result})</span>` : result}`;
+  private hasCompleteCondition(node: FilterNode): boolean {
+    if (isBooleanNode(node)) {
+      return node.children.some(child => this.hasCompleteCondition(child));
     }
-
-    return result;
+    return !!(node.field && node.operator);
   }
 
   escapeHtml(text: string): string {
@@ -559,432 +405,125 @@ getMaxRangeOperators() {
   }
 
   toggleQueryDSL(): void {
-    this.showQueryDSL = !this.showQueryDSL;
     if (this.showQueryDSL) {
-      this.generateQueryDSL();
-    }
-  }
-
-  generateQueryDSL(): void {
-    const filterArray = this.filters.value;
-    const queries: Array<{ query: any, logic: string, index: number }> = [];
-
-    filterArray.forEach((filter: any, index: number) => {
-      if (!filter.field || !filter.operator) {
-        return;
-      }
-
-      let query: any = {};
-      const isKeyword = this.isKeywordField(filter.field);
-
-      // Normalize operator to handle various formats
-      const normalizedOperator = this.normalizeOperator(filter.operator);
-      
-      // Helper function to check if value is numeric
-      const isNumericValue = (val: any): boolean => {
-        if (val === null || val === undefined || val === '') return false;
-        if (typeof val === 'number') return true;
-        if (typeof val === 'string') {
-          return /^-?\d+(\.\d+)?$/.test(val.trim());
-        }
-        return false;
-      };
-
-      // Helper function to check if field is a date/timestamp field
-      const isDateField = (field: string): boolean => {
-        return field === '@timestamp' || 
-               field.toLowerCase().includes('date') || 
-               field.toLowerCase().includes('time');
-      };
-
-      // Helper function to convert value to appropriate type
-      const convertValue = (val: any, field: string): any => {
-        // Never convert keyword fields - they should always be strings
-        if (isKeyword) {
-          return val;
-        }
-        // For non-keyword fields, convert numeric values to numbers
-        if (isNumericValue(val)) {
-          const numVal = typeof val === 'string' ? parseFloat(val.trim()) : val;
-          return isNaN(numVal) ? val : numVal;
-        }
-        return val;
-      };
-      
-      switch (normalizedOperator) {
-        case 'is':
-          // Use term for keyword fields, date fields, or numeric values
-          // Use match only for text fields with non-numeric values
-          if (isKeyword || isDateField(filter.field) || isNumericValue(filter.value)) {
-            const value = convertValue(filter.value, filter.field);
-            query = { term: { [filter.field]: value } };
-          } else {
-            query = { match: { [filter.field]: filter.value } };
-          }
-          break;
-        case 'is_not':
-          // Field does not exactly match a single value
-          if (isKeyword || isDateField(filter.field) || isNumericValue(filter.value)) {
-            const notValue = convertValue(filter.value, filter.field);
-            query = { bool: { must_not: [{ term: { [filter.field]: notValue } }] } };
-          } else {
-            query = { bool: { must_not: [{ match: { [filter.field]: filter.value } }] } };
-          }
-          break;
-        case 'is_one_of':
-          // Field matches any of multiple values
-          const values = Array.isArray(filter.value) 
-            ? filter.value 
-            : (typeof filter.value === 'string' ? filter.value.split(',').map((v: string) => v.trim()) : [filter.value]);
-          query = { terms: { [filter.field]: values } };
-          break;
-        case 'is_not_one_of':
-          // Field matches none of multiple values
-          const notValues = Array.isArray(filter.value) 
-            ? filter.value 
-            : (typeof filter.value === 'string' ? filter.value.split(',').map((v: string) => v.trim()) : [filter.value]);
-          query = { bool: { must_not: [{ terms: { [filter.field]: notValues } }] } };
-          break;
-        case 'exists':
-          // Field has any value (is present)
-          query = { exists: { field: filter.field } };
-          break;
-        case 'does_not_exist':
-          // Field is missing or null
-          query = { bool: { must_not: [{ exists: { field: filter.field } }] } };
-          break;
-        case 'range':
-          // Range query with min and max operators
-          const rangeQuery: any = {};
-          if (filter.minValue) {
-            rangeQuery[filter.minOperator || 'gt'] = convertValue(filter.minValue, filter.field);
-          }
-          if (filter.maxValue) {
-            rangeQuery[filter.maxOperator || 'lt'] = convertValue(filter.maxValue, filter.field);
-          }
-          if (Object.keys(rangeQuery).length > 0) {
-            query = { range: { [filter.field]: rangeQuery } };
-          } else {
-            console.warn('Range filter requires at least one value');
-            return;
-          }
-          break;
-        case 'prefix':
-          // Prefix query - matches documents where field starts with the given value
-          if (!filter.value) {
-            console.warn('Prefix filter requires a value');
-            return;
-          }
-          // Use prefix query for keyword fields, wildcard for text fields
-          if (isKeyword) {
-            query = { prefix: { [filter.field]: filter.value } };
-          } else {
-            // For text fields, use wildcard with prefix pattern
-            query = { wildcard: { [filter.field]: { value: `${filter.value}*`, case_insensitive: true } } };
-          }
-          break;
-        case 'wildcard':
-          // Wildcard query - matches documents using wildcard patterns (* and ?)
-          if (!filter.value) {
-            console.warn('Wildcard filter requires a value');
-            return;
-          }
-          // Use wildcard query for both keyword and text fields
-          if (isKeyword) {
-            query = { wildcard: { [filter.field]: { value: filter.value, case_insensitive: true } } };
-          } else {
-            // For text fields, use wildcard query
-            query = { wildcard: { [filter.field]: { value: filter.value, case_insensitive: true } } };
-          }
-          break;
-        case 'query_string':
-          // Query String query - uses Lucene query syntax
-          if (!filter.value) {
-            console.warn('Query string filter requires a value');
-            return;
-          }
-          // Query string works on both keyword and text fields
-          query = { query_string: { default_field: filter.field, query: filter.value } };
-          break;
-        default:
-          console.warn(`Unknown filter operator: ${filter.operator}`);
-          return;
+      // Switching back to the visual editor loads the edited Query DSL into the tree
+      if (this.applyQueryDSL()) {
+        this.showQueryDSL = false;
       }
+      return;
+    }
 
-      // Store query with its logic for grouping
-      queries.push({ query, logic: filter.logic || 'AND', index });
-    });
+    this.generateQueryDSL();
+    this.queryDSLError = null;
+    this.showQueryDSL = true;
+  }
 
-    // Build Query DSL with Kibana-style sequential nesting (right-associative)
-    // Extract operators (operators[i] is the operator before filter[i])
-    const operators: Array<'AND' | 'OR' | null> = [null];
-    for (let i = 1; i < queries.length; i++) {
-      operators.push((queries[i].logic || 'AND') as 'AND' | 'OR');
-    }
-
-    // Check if all operators are the same
-    const allOperators = operators.slice(1);
-    const allSame = allOperators.length > 0 && allOperators.every(op => op === allOperators[0]);
-
-    let queryDSL: any;
-
-    if (queries.length === 1) {
-      // Single query
-      queryDSL = { query: queries[0].query };
-    } else if (allSame) {
-      // All same operator - simple grouping
-      const queryList = queries.map(q => q.query);
-      if (allOperators[0] === 'OR') {
-        queryDSL = {
-          query: {
-            bool: {
-              should: queryList,
-              minimum_should_match: 1
-            }
-          }
-        };
+  /**
+   * Parses the Query DSL text into the filter tree.
+   * Clauses the visual editor can't represent are kept as custom DSL conditions.
+   * Returns false (and sets queryDSLError) when the text isn't valid Query DSL.
+   */
+  applyQueryDSL(): boolean {
+    try {
+      const tree = parseQueryDSL(JSON.parse(this.queryDSL), this.fieldTypes);
+      this.queryDSLError = null;
+      if (tree.root) {
+        this.filterStateService.setFilterTree(tree, true);
       } else {
-        // AND
-        queryDSL = {
-          query: {
-            bool: {
-              must: queryList
-            }
-          }
-        };
-      }
-    } else {
-      // Different operators - build right-associatively from right to left
-      // This matches the Kibana sequential nesting behavior
-      
-      let result = queries[queries.length - 1].query;
-
-      // Build from right to left, nesting when operator changes
-      for (let i = queries.length - 2; i >= 0; i--) {
-        const currentOp = operators[i + 1]!;
-        const currentQuery = queries[i].query;
-
-        // Check if result needs parentheses (nesting)
-        let needsNesting = false;
-        if (i + 1 < queries.length - 1) {
-          const resultOp = operators[i + 2]!;
-          needsNesting = resultOp !== currentOp;
-        }
-
-        // Combine currentQuery with result
-        if (currentOp === 'OR') {
-          // OR operation: use bool.should
-          if (needsNesting) {
-            // Result needs to be wrapped (it has different operator inside)
-            result = {
-              bool: {
-                should: [currentQuery, result],
-                minimum_should_match: 1
-              }
-            };
-          } else {
-            // Check if result is already a should clause
-            if (result.bool && result.bool.should) {
-              // Extend existing should clause
-              result.bool.should = [currentQuery, ...result.bool.should];
-            } else {
-              // Create new should clause
-              result = {
-                bool: {
-                  should: [currentQuery, result],
-                  minimum_should_match: 1
-                }
-              };
-            }
-          }
-        } else {
-          // AND operation: use bool.must
-          if (needsNesting) {
-            // Result needs to be wrapped (it has different operator inside)
-            result = {
-              bool: {
-                must: [currentQuery, result]
-              }
-            };
-          } else {
-            // Check if result is already a must clause
-            if (result.bool && result.bool.must) {
-              // Extend existing must clause
-              result.bool.must = [currentQuery, ...result.bool.must];
-            } else {
-              // Create new must clause
-              result = {
-                bool: {
-                  must: [currentQuery, result]
-                }
-              };
-            }
-          }
-        }
+        this.filterStateService.reset();
+        this.filterStateService.initializeWithFilter({});
       }
-
-      queryDSL = { query: result };
+      return true;
+    } catch (error: any) {
+      this.queryDSLError = error instanceof SyntaxError ? `Invalid JSON: ${error.message}` : error.message;
+      return false;
     }
+  }
 
-    this.queryDSL = JSON.stringify(queryDSL, null, 2);
+  generateQueryDSL(): void {
+    this.queryDSL = JSON.stringify(compileFilterTree(this.filterTree, this.fieldTypes), null, 2);
   }
 
   applyFilters(): void {
-    if (this.filterForm.invalid) {
-      this.updatePreview();
+    if (this.showQueryDSL && !this.applyQueryDSL()) {
       return;
     }
 
-    const filterArray = this.filters.value;
-    const validFilters = filterArray.filter((f: any) => {
-      if (!f.field || !f.operator) {
-        return false;
-      }
-      const normalizedOperator = this.normalizeOperator(f.operator);
-      if (normalizedOperator === 'exists' || normalizedOperator === 'does_not_exist') {
-        return true;
-      }
-      if (normalizedOperator === 'range') {
-        return !!(f.minValue || f.maxValue);
-      }
-      if (normalizedOperator === 'prefix') {
-        return !!f.value;
-      }
-      if (normalizedOperator === 'wildcard') {
-        return !!f.value;
-      }
-      if (normalizedOperator === 'query_string') {
-        return !!f.value;
-      }
-      return !!f.value;
-    });
-
-    if (validFilters.length === 0) {
+    if (!this.canAddFilter()) {
+      this.updatePreview();
       return;
     }
 
-    const filterGroup: FilterGroup = {
-      filters: validFilters,
-      customLabel: this.customLabel || undefined
-    };
-
-    this.generateQueryDSL();
-    filterGroup.queryDSL = JSON.parse(this.queryDSL);
-
+    const filterGroup: FilterGroup = this.filterStateService.buildFilterGroup(this.customLabel, this.fieldTypes);
     this.filtersApplied.emit(filterGroup);
   }
 
+  /**
+   * Closes the editor and restores the exact tree that was applied when it opened
+   */
   cancel(): void {
     this.closeFilterBar.emit();
-    this.resetForm();
+
+    if (this.treeOnOpen?.root) {
+      this.filterStateService.setFilterTree(this.treeOnOpen);
+    } else {
+      this.filterStateService.reset();
+    }
+    this.filterStateService.clearHistory();
+    this.customLabel = this.activeFilters?.customLabel || '';
+    this.showQueryDSL = false;
+    this.queryDSLError = null;
   }
 
   resetForm(): void {
-    while (this.filters.length !== 0) {
-      this.filters.removeAt(0);
-    }
-    this.addFilter();
+    this.filterStateService.reset();
+    this.filterStateService.initializeWithFilter({});
     this.customLabel = '';
     this.previewText = '';
     this.previewHtml = '';
     this.showQueryDSL = false;
+    this.queryDSLError = null;
   }
 
-  isFilterValid(index: number): boolean {
-    const filter = this.filters.at(index);
-    const field = filter.get('field')?.value;
-    const operator = filter.get('operator')?.value;
-    const value = filter.get('value')?.value;
+  isFilterValid(condition: FilterCondition): boolean {
+    const field = condition.field;
+    const operator = condition.operator;
+    const value = condition.value;
+
+    if (operator === CUSTOM_DSL_OPERATOR) {
+      return !!value && typeof value === 'object';
+    }
 
     if (!field || !operator) {
       return false;
     }
 
-    const normalizedOperator = this.normalizeOperator(operator);
+    const normalizedOperator = normalizeOperator(operator);
     if (normalizedOperator === 'exists' || normalizedOperator === 'does_not_exist') {
       return true;
     }
 
-    if (normalizedOperator === 'range') {
-      // Range filter requires at least one value (min or max)
-      const minValue = filter.get('minValue')?.value;
-      const maxValue = filter.get('maxValue')?.value;
-      return !!(minValue || maxValue);
+    if (['range', 'is_between', 'is_not_between'].includes(normalizedOperator)) {
+      // Range filters require at least one bound (0 included) and bounds matching the field type
+      const fieldInfo = this.getField(field);
+      return (hasRangeBound(condition.minValue) || hasRangeBound(condition.maxValue)) &&
+        !getRangeBoundError(condition.minValue, fieldInfo) && !getRangeBoundError(condition.maxValue, fieldInfo);
     }
 
-    if (normalizedOperator === 'prefix') {
-      // Prefix filter requires a value
-      return !!value;
+    if (isGeoOperator(normalizedOperator)) {
+      return !getGeoValueError(normalizedOperator, value);
     }
 
-    if (normalizedOperator === 'wildcard') {
-      // Wildcard filter requires a value
-      return !!value;
+    if (normalizedOperator === 'is_in_subnet') {
+      return !!value && !getSubnetError(value, this.getField(field));
     }
 
-    if (normalizedOperator === 'query_string') {
-      // Query string filter requires a value
-      return !!value;
-    }
-
-    return !!value;
+    // prefix, wildcard, query_string and the value operators all require a value
+    return Array.isArray(value) ? value.length > 0 : !!value;
   }
 
   canAddFilter(): boolean {
-    return this.filters.length > 0 && 
-           this.filters.controls.every((control, index) => this.isFilterValid(index));
-  }
-
-  normalizeOperator(operator: string): string {
-    // Map various operator formats to standard format
-    const operatorMap: { [key: string]: string } = {
-      'is': 'is',
-      'isNot': 'is_not',
-      'is_not': 'is_not',
-      'terms': 'is_one_of',
-      'is_one_of': 'is_one_of',
-      'notTerms': 'is_not_one_of',
-      'is_not_one_of': 'is_not_one_of',
-      'exists': 'exists',
-      'notExists': 'does_not_exist',
-      'does_not_exist': 'does_not_exist',
-      'range': 'range',
-      'prefix': 'prefix',
-      'wildcard': 'wildcard',
-      'query_string': 'query_string',
-      'queryString': 'query_string'
-    };
-    return operatorMap[operator] || operator;
-  }
-
-  getRangeOperatorLabel(operator: string): string {
-    const op = this.rangeOperators.find(r => r.value === operator);
-    return op ? op.label : operator;
-  }
-
-  getValuePlaceholder(index: number): string {
-    const filter = this.filters.at(index);
-    const field = filter.get('field')?.value;
-    const operator = filter.get('operator')?.value;
-    const normalizedOperator = this.normalizeOperator(operator);
-
-    if (!field) {
-      return 'Please select a field first...';
-    }
-    
-    if (!operator) {
-      return 'Please select operator first...';
-    }
-
-    if (normalizedOperator === 'exists' || normalizedOperator === 'does_not_exist') {
-      return 'No value needed';
-    }
-
-    if (normalizedOperator === 'prefix' || normalizedOperator === 'wildcard' || normalizedOperator === 'query_string') {
-      return 'Search';
-    }
-
-    return 'Enter value';
+    const conditions = this.filterStateService.getConditions();
+    return conditions.length > 0 && conditions.every(condition => this.isFilterValid(condition));
   }
 }
-
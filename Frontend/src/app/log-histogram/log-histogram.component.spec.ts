@@ -0,0 +1,27 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+import { DatePipe } from '@angular/common';
+
+import { LogHistogramComponent } from './log-histogram.component';
+
+describe('LogHistogramComponent', () => {
+  let component: LogHistogramComponent;
+  let fixture: ComponentFixture<LogHistogramComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ HttpClientTestingModule ],
+      declarations: [ LogHistogramComponent ],
+      providers: [ DatePipe ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(LogHistogramComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
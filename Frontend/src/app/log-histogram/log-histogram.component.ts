@@ -0,0 +1,178 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, Output, SimpleChanges } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { DatePipe } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { environment } from 'src/environments/environment';
+import { FilterGroup } from '../filter.model';
+import { DataView } from '../data-view.model';
+import { getAutoInterval, HistogramInterval, parseDateMath, TimeRange, toTimeRangeRequest } from '../common/time-range';
+
+interface HistogramBucket {
+  key: number;
+  count: number;
+}
+
+@Component({
+  selector: 'app-log-histogram',
+  templateUrl: './log-histogram.component.html',
+  styleUrls: ['./log-histogram.component.scss']
+})
+export class LogHistogramComponent implements OnChanges, OnDestroy {
+  @Input() filters: FilterGroup | null = null;
+  @Input() timeRange: TimeRange | null = null;
+  @Input() dataView: DataView | null = null;
+  @Output() timeRangeChange = new EventEmitter<TimeRange>();
+
+  // SVG viewBox size, the chart is stretched to the container width
+  readonly chartWidth = 1000;
+  readonly chartHeight = 120;
+
+  buckets: HistogramBucket[] = [];
+  totalHits: number = 0;
+  maxCount: number = 0;
+  interval: HistogramInterval | null = null;
+  loading: boolean = false;
+  error: string | null = null;
+
+  // Brush selection, as bucket indexes
+  brushStart: number | null = null;
+  brushEnd: number | null = null;
+
+  private histogramSubscription?: Subscription;
+
+  constructor(private http: HttpClient, private datePipe: DatePipe) { }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // Loading the field metadata of the same data view doesn't change the histogram
+    const dataViewChange = changes['dataView'];
+    const onlyFieldsLoaded = Object.keys(changes).length === 1 && !!dataViewChange && !dataViewChange.firstChange &&
+      dataViewChange.previousValue?.id === dataViewChange.currentValue?.id;
+    if (!onlyFieldsLoaded) {
+      this.loadHistogram();
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (this.histogramSubscription) {
+      this.histogramSubscription.unsubscribe();
+    }
+  }
+
+  loadHistogram(): void {
+    if (!this.timeRange) {
+      return;
+    }
+
+    const from = parseDateMath(this.timeRange.from);
+    const to = parseDateMath(this.timeRange.to, true);
+    if (!from || !to) {
+      return;
+    }
+
+    this.interval = getAutoInterval(from, to);
+    this.loading = true;
+    this.error = null;
+
+    const payload: any = {
+      timeRange: toTimeRangeRequest(this.timeRange),
+      interval: this.interval.interval,
+      min: from.getTime(),
+      max: to.getTime()
+    };
+    if (this.filters && this.filters.queryDSL) {
+      payload.queryDSL = this.filters.queryDSL;
+    }
+    if (this.dataView) {
+      payload.dataView = this.dataView.id;
+    }
+
+    // Only the latest request matters when the range changes quickly
+    if (this.histogramSubscription) {
+      this.histogramSubscription.unsubscribe();
+    }
+
+    this.histogramSubscription = this.http.post<any>(environment.webLogsHistogram, payload).subscribe(
+      (response) => {
+        this.buckets = response.buckets || [];
+        this.totalHits = response.total || 0;
+        this.maxCount = Math.max(0, ...this.buckets.map(bucket => bucket.count));
+        this.loading = false;
+      },
+      (error) => {
+        console.error('Error loading histogram:', error);
+        this.error = error.error?.message || 'Failed to load histogram';
+        this.buckets = [];
+        this.loading = false;
+      }
+    );
+  }
+
+  get barWidth(): number {
+    return this.buckets.length > 0 ? this.chartWidth / this.buckets.length : 0;
+  }
+
+  getBarHeight(bucket: HistogramBucket): number {
+    return this.maxCount > 0 ? (bucket.count / this.maxCount) * this.chartHeight : 0;
+  }
+
+  getBucketTitle(bucket: HistogramBucket): string {
+    return `${this.datePipe.transform(bucket.key, 'MMM d, y HH:mm:ss')}: ${bucket.count} hits`;
+  }
+
+  getFirstBucketLabel(): string {
+    return this.buckets.length ? this.datePipe.transform(this.buckets[0].key, 'MMM d, HH:mm') || '' : '';
+  }
+
+  getLastBucketLabel(): string {
+    const last = this.buckets[this.buckets.length - 1];
+    return last ? this.datePipe.transform(last.key, 'MMM d, HH:mm') || '' : '';
+  }
+
+  isInBrush(index: number): boolean {
+    if (this.brushStart === null || this.brushEnd === null) {
+      return false;
+    }
+    return index >= Math.min(this.brushStart, this.brushEnd) && index <= Math.max(this.brushStart, this.brushEnd);
+  }
+
+  onBrushStart(event: MouseEvent): void {
+    this.brushStart = this.getBucketIndex(event);
+    this.brushEnd = this.brushStart;
+  }
+
+  onBrushMove(event: MouseEvent): void {
+    if (this.brushStart !== null) {
+      this.brushEnd = this.getBucketIndex(event);
+    }
+  }
+
+  /**
+   * Narrows the time range to the brushed buckets; the table reloads with the new range
+   */
+  onBrushEnd(): void {
+    if (this.brushStart === null || this.brushEnd === null || !this.interval || this.buckets.length === 0) {
+      this.cancelBrush();
+      return;
+    }
+
+    const first = this.buckets[Math.min(this.brushStart, this.brushEnd)];
+    const last = this.buckets[Math.max(this.brushStart, this.brushEnd)];
+    this.cancelBrush();
+
+    this.timeRangeChange.emit({
+      from: new Date(first.key).toISOString(),
+      to: new Date(last.key + this.interval.ms - 1).toISOString()
+    });
+  }
+
+  cancelBrush(): void {
+    this.brushStart = null;
+    this.brushEnd = null;
+  }
+
+  private getBucketIndex(event: MouseEvent): number {
+    const rect = (event.currentTarget as Element).getBoundingClientRect();
+    const ratio = rect.width > 0 ? (event.clientX - rect.left) / rect.width : 0;
+    return Math.min(this.buckets.length - 1, Math.max(0, Math.floor(ratio * this.buckets.length)));
+  }
+}
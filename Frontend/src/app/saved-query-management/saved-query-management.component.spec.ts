@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormsModule } from '@angular/forms';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { SavedQueryManagementComponent } from './saved-query-management.component';
+
+describe('SavedQueryManagementComponent', () => {
+  let component: SavedQueryManagementComponent;
+  let fixture: ComponentFixture<SavedQueryManagementComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ FormsModule, HttpClientTestingModule ],
+      declarations: [ SavedQueryManagementComponent ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(SavedQueryManagementComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
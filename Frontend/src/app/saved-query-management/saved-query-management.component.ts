@@ -0,0 +1,219 @@
+import { Component, EventEmitter, Input, OnChanges, OnDestroy, OnInit, Output, SimpleChanges } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { FilterGroup } from '../filter.model';
+import { DataView } from '../data-view.model';
+import { SavedQuery } from '../saved-query.model';
+import { SavedQueryService } from '../services/saved-query.service';
+import { buildFieldTypeMap } from '../common/field-types';
+
+/**
+ * Saved query menu, ported from Kibana's saved_query_management_list and save_query_form:
+ * a searchable list of saved filter trees to load, rename or delete, and a form to save
+ * the applied filters as a new query or as changes to the loaded one
+ */
+@Component({
+  selector: 'app-saved-query-management',
+  templateUrl: './saved-query-management.component.html',
+  styleUrls: ['./saved-query-management.component.scss']
+})
+export class SavedQueryManagementComponent implements OnInit, OnChanges, OnDestroy {
+  @Input() activeFilters: FilterGroup | null = null;
+  @Input() dataView: DataView | null = null;
+  @Output() savedQueryLoaded = new EventEmitter<FilterGroup>();
+
+  savedQueries: SavedQuery[] = [];
+  loadedSavedQuery: SavedQuery | null = null;
+
+  isOpen: boolean = false;
+  searchTerm: string = '';
+  error: string | null = null;
+
+  // Save form
+  showSaveForm: boolean = false;
+  saveAsNew: boolean = true;
+  formName: string = '';
+  formDescription: string = '';
+  formError: string | null = null;
+  saving: boolean = false;
+
+  // Inline rename and delete confirmation
+  renamingId: number | null = null;
+  renameValue: string = '';
+  deletingId: number | null = null;
+
+  private subscription?: Subscription;
+
+  constructor(private savedQueryService: SavedQueryService) { }
+
+  ngOnInit(): void {
+    this.subscription = this.savedQueryService.savedQueries$.subscribe(savedQueries => this.savedQueries = savedQueries);
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    // Cleared filters unload the saved query
+    if (changes['activeFilters'] && !this.activeFilters) {
+      this.loadedSavedQuery = null;
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  togglePopover(): void {
+    this.isOpen = !this.isOpen;
+    this.searchTerm = '';
+    this.showSaveForm = false;
+    this.renamingId = null;
+    this.deletingId = null;
+    if (this.isOpen) {
+      this.refresh();
+    }
+  }
+
+  refresh(): void {
+    this.savedQueryService.loadSavedQueries(this.dataView?.id).subscribe(
+      () => this.error = null,
+      (error) => {
+        console.error('Error loading saved queries:', error);
+        this.error = error.error?.message || 'Failed to load saved queries';
+      }
+    );
+  }
+
+  getVisibleSavedQueries(): SavedQuery[] {
+    const term = this.searchTerm.trim().toLowerCase();
+    return this.savedQueries.filter(savedQuery => !term ||
+      savedQuery.name.toLowerCase().includes(term) ||
+      (savedQuery.description || '').toLowerCase().includes(term));
+  }
+
+  /**
+   * Only filters applied from the tree editor can be saved
+   */
+  canSave(): boolean {
+    return !!this.activeFilters?.tree?.root;
+  }
+
+  loadSavedQuery(savedQuery: SavedQuery): void {
+    const filterGroup = this.savedQueryService.applySavedQuery(savedQuery, buildFieldTypeMap(this.dataView?.fields));
+    this.loadedSavedQuery = savedQuery;
+    this.isOpen = false;
+    this.savedQueryLoaded.emit(filterGroup);
+  }
+
+  openSaveForm(saveAsNew: boolean): void {
+    this.showSaveForm = true;
+    this.saveAsNew = saveAsNew;
+    this.formName = saveAsNew ? '' : this.loadedSavedQuery?.name || '';
+    this.formDescription = saveAsNew ? '' : this.loadedSavedQuery?.description || '';
+    this.formError = null;
+  }
+
+  cancelSaveForm(): void {
+    this.showSaveForm = false;
+    this.formError = null;
+  }
+
+  /**
+   * Validation message of the save form, like save_query_form: a unique, non-empty name
+   */
+  getFormValidationError(): string | null {
+    if (!this.formName.trim()) {
+      return 'Name is required';
+    }
+    const exceptId = this.saveAsNew ? undefined : this.loadedSavedQuery?.id;
+    if (this.savedQueryService.isDuplicateName(this.formName, exceptId)) {
+      return 'Name conflicts with an existing saved query';
+    }
+    return null;
+  }
+
+  save(): void {
+    if (!this.canSave() || this.getFormValidationError() || this.saving) {
+      return;
+    }
+
+    const attributes = {
+      name: this.formName.trim(),
+      description: this.formDescription.trim(),
+      dataView: this.dataView?.id,
+      customLabel: this.activeFilters!.customLabel,
+      tree: this.activeFilters!.tree!,
+      queryDSL: this.activeFilters!.queryDSL
+    };
+    const request = this.saveAsNew || !this.loadedSavedQuery
+      ? this.savedQueryService.createSavedQuery(attributes)
+      : this.savedQueryService.updateSavedQuery(this.loadedSavedQuery.id, attributes);
+
+    this.saving = true;
+    request.subscribe(
+      (savedQuery) => {
+        this.saving = false;
+        this.loadedSavedQuery = savedQuery;
+        this.showSaveForm = false;
+        this.isOpen = false;
+      },
+      (error) => {
+        this.saving = false;
+        console.error('Error saving query:', error);
+        this.formError = error.error?.message || 'Failed to save query';
+      }
+    );
+  }
+
+  startRename(savedQuery: SavedQuery, event: Event): void {
+    event.stopPropagation();
+    this.renamingId = savedQuery.id;
+    this.renameValue = savedQuery.name;
+    this.deletingId = null;
+  }
+
+  confirmRename(savedQuery: SavedQuery): void {
+    const name = this.renameValue.trim();
+    if (!name || name === savedQuery.name) {
+      this.renamingId = null;
+      return;
+    }
+    if (this.savedQueryService.isDuplicateName(name, savedQuery.id)) {
+      this.error = `A saved query named "${name}" already exists`;
+      return;
+    }
+
+    this.savedQueryService.renameSavedQuery(savedQuery.id, name).subscribe(
+      (renamed) => {
+        this.renamingId = null;
+        this.error = null;
+        if (this.loadedSavedQuery?.id === renamed.id) {
+          this.loadedSavedQuery = renamed;
+        }
+      },
+      (error) => {
+        console.error('Error renaming saved query:', error);
+        this.error = error.error?.message || 'Failed to rename saved query';
+      }
+    );
+  }
+
+  requestDelete(savedQuery: SavedQuery, event: Event): void {
+    event.stopPropagation();
+    this.deletingId = savedQuery.id;
+    this.renamingId = null;
+  }
+
+  confirmDelete(savedQuery: SavedQuery): void {
+    this.savedQueryService.deleteSavedQuery(savedQuery.id).subscribe(
+      () => {
+        this.deletingId = null;
+        this.error = null;
+        if (this.loadedSavedQuery?.id === savedQuery.id) {
+          this.loadedSavedQuery = null;
+        }
+      },
+      (error) => {
+        console.error('Error deleting saved query:', error);
+        this.error = error.error?.message || 'Failed to delete saved query';
+      }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { FilterTree } from './filter.model';
+
+// Named filter tree saved on the backend, like Kibana saved queries
+export interface SavedQuery {
+  id: number;
+  name: string;
+  description: string;
+  dataView?: string; // Data view the query was saved from
+  customLabel?: string;
+  tree: FilterTree;
+  queryDSL?: any;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Fields sent when saving, updating or renaming a saved query
+export type SavedQueryAttributes = Pick<SavedQuery, 'name' | 'description' | 'dataView' | 'customLabel' | 'tree' | 'queryDSL'>;
@@ -0,0 +1,78 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { environment } from 'src/environments/environment';
+import { DataView } from '../data-view.model';
+
+const SELECTED_DATA_VIEW_KEY = 'selectedDataView';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class DataViewService {
+  private dataViewsSubject = new BehaviorSubject<DataView[]>([]);
+  public dataViews$: Observable<DataView[]> = this.dataViewsSubject.asObservable();
+
+  private selectedDataViewSubject = new BehaviorSubject<DataView | null>(null);
+  public selectedDataView$: Observable<DataView | null> = this.selectedDataViewSubject.asObservable();
+
+  private errorSubject = new BehaviorSubject<string | null>(null);
+  public error$: Observable<string | null> = this.errorSubject.asObservable();
+
+  constructor(private http: HttpClient) {}
+
+  /**
+   * Loads the data views and selects the requested one, the last used one or the first one
+   */
+  loadDataViews(preferredId?: string): void {
+    this.http.get<DataView[]>(environment.dataViews).subscribe(
+      (dataViews) => {
+        this.dataViewsSubject.next(dataViews);
+        this.errorSubject.next(null);
+
+        const ids = [preferredId, localStorage.getItem(SELECTED_DATA_VIEW_KEY)];
+        const initial = ids.map(id => dataViews.find(dataView => dataView.id === id)).find(dataView => !!dataView) || dataViews[0];
+        if (initial) {
+          this.selectDataView(initial.id);
+        }
+      },
+      (error) => {
+        console.error('Error loading data views:', error);
+        this.errorSubject.next(error.error?.message || 'Failed to load data views');
+      }
+    );
+  }
+
+  /**
+   * Selects a data view and loads its field metadata
+   */
+  selectDataView(id: string): void {
+    const dataView = this.dataViewsSubject.value.find(candidate => candidate.id === id);
+    if (!dataView) {
+      return;
+    }
+
+    localStorage.setItem(SELECTED_DATA_VIEW_KEY, id);
+    this.selectedDataViewSubject.next(dataView);
+
+    this.http.get<DataView>(`${environment.dataViews}/${encodeURIComponent(id)}`).subscribe(
+      (withFields) => {
+        // Ignore the answer if another data view was selected in the meantime
+        if (this.getSelectedDataView()?.id === id) {
+          this.selectedDataViewSubject.next(withFields);
+        }
+      },
+      (error) => {
+        console.error('Error loading data view fields:', error);
+      }
+    );
+  }
+
+  getDataViews(): DataView[] {
+    return this.dataViewsSubject.value;
+  }
+
+  getSelectedDataView(): DataView | null {
+    return this.selectedDataViewSubject.value;
+  }
+}
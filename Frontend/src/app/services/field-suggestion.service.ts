@@ -0,0 +1,57 @@
+import { Injectable } from '@angular/core';
+import { Observable, of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { DataViewField } from '../data-view.model';
+import { FieldValueSuggestion } from '../filter.model';
+import { QueryClause } from '../common/query-dsl-compiler';
+import {
+  buildBooleanSuggestions,
+  buildDateSuggestions,
+  buildNumberSuggestions,
+  getSuggestionStrategy
+} from '../common/field-suggestions';
+import { FilterService } from './filter.service';
+
+export interface FieldSuggestionRequest {
+  fieldName: string;
+  field?: DataViewField; // Catalog entry of the field, picks the suggestion strategy
+  searchTerm?: string;
+  dataViewId?: string;
+  context?: QueryClause; // Query DSL the suggested values must match, e.g. the rest of the filter tree
+}
+
+/**
+ * Suggests values for the filter editor with the strategy of the field's type
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FieldSuggestionService {
+
+  constructor(private filterService: FilterService) {}
+
+  getSuggestions(request: FieldSuggestionRequest): Observable<FieldValueSuggestion[]> {
+    const plan = getSuggestionStrategy(request.fieldName, request.field);
+
+    switch (plan.strategy) {
+      case 'terms':
+        return this.filterService.getFieldValues(plan.field, request.searchTerm, request.dataViewId, request.context);
+
+      case 'number':
+        return this.filterService.getFieldSummary(plan.field, request.dataViewId, request.context, true).pipe(
+          map(summary => buildNumberSuggestions(summary))
+        );
+
+      case 'date':
+        return this.filterService.getFieldSummary(plan.field, request.dataViewId, request.context).pipe(
+          map(summary => buildDateSuggestions(summary))
+        );
+
+      case 'boolean':
+        return of(buildBooleanSuggestions(request.searchTerm));
+
+      default:
+        return of([]);
+    }
+  }
+}
@@ -97,6 +97,8 @@ export class FilterBuilderService {
         type: 'combined',
         relation,
         params: filters,
+        disabled,
+        negate,
       },
     } as CombinedFilter;
   }
@@ -0,0 +1,143 @@
+import { FilterNode, FilterTree, isBooleanNode } from '../filter.model';
+import { FilterStateService } from './filter-state.service';
+
+describe('FilterStateService', () => {
+  let service: FilterStateService;
+
+  // (a AND b AND (c OR d))
+  const tree: FilterTree = {
+    id: 'tree',
+    root: {
+      id: 'root',
+      operator: 'AND',
+      children: [
+        { id: 'a', field: 'a', operator: 'exists' },
+        { id: 'b', field: 'b', operator: 'exists' },
+        {
+          id: 'or',
+          operator: 'OR',
+          children: [
+            { id: 'c', field: 'c', operator: 'exists' },
+            { id: 'd', field: 'd', operator: 'exists' }
+          ]
+        }
+      ]
+    }
+  };
+
+  // Compact tree shape, e.g. "AND(a, b, OR(c, d))"
+  const shape = (node: FilterNode | null = service.getFilterTree().root): string => {
+    if (!node) return '';
+    return isBooleanNode(node) ? `${node.operator}(${node.children.map(child => shape(child)).join(', ')})` : node.id;
+  };
+
+  beforeEach(() => {
+    service = new FilterStateService();
+    service.setFilterTree(tree);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('moves a condition into another group', () => {
+    expect(service.moveNode('a', 'or', 1)).toBe(true);
+    expect(shape()).toBe('AND(b, OR(c, a, d))');
+  });
+
+  it('reorders a condition within its group', () => {
+    expect(service.moveNode('a', 'root', 1)).toBe(true);
+    expect(shape()).toBe('AND(b, a, OR(c, d))');
+  });
+
+  it('normalizes groups left with a single child', () => {
+    expect(service.moveNode('c', 'root', 0)).toBe(true);
+    expect(shape()).toBe('AND(c, a, b, d)');
+  });
+
+  it('refuses to move a group into itself', () => {
+    expect(service.moveNode('or', 'or', 0)).toBe(false);
+    expect(service.moveNode('a', 'b', 0)).toBe(false);
+    expect(service.getFilterTree()).toBe(tree);
+  });
+
+  it('wraps a condition dropped onto another in a new group', () => {
+    expect(service.combineNodes('a', 'b')).toBe(true);
+    expect(shape()).toBe('AND(OR(b, a), OR(c, d))');
+
+    expect(service.combineNodes('d', 'c')).toBe(true);
+    expect(shape()).toBe('AND(OR(b, a), AND(c, d))');
+  });
+
+  it('undoes and redoes tree edits', () => {
+    expect(service.canUndo()).toBe(false);
+
+    service.removeFilter('a');
+    service.moveNode('b', 'or', 0);
+    expect(shape()).toBe('OR(b, c, d)');
+
+    service.undo();
+    expect(shape()).toBe('AND(b, OR(c, d))');
+    service.undo();
+    expect(service.getFilterTree()).toBe(tree);
+    expect(service.canUndo()).toBe(false);
+
+    service.redo();
+    expect(shape()).toBe('AND(b, OR(c, d))');
+    expect(service.canRedo()).toBe(true);
+
+    service.toggleOperator('root');
+    expect(service.canRedo()).toBe(false);
+  });
+
+  it('merges consecutive edits of the same value into one step', () => {
+    service.modifyFilter('a', null, { value: 'x' });
+    service.modifyFilter('a', null, { value: 'xy' });
+    service.modifyFilter('b', null, { value: 'z' });
+
+    service.undo();
+    expect((service.getFilterTree().root as any).children[0].value).toBe('xy');
+    service.undo();
+    expect(service.getFilterTree()).toBe(tree);
+  });
+
+  it('does not merge edits across a loaded tree', () => {
+    const loaded: FilterTree = { ...tree, id: 'loaded' };
+    service.modifyFilter('a', null, { value: 'x' });
+    service.setFilterTree(loaded);
+    service.modifyFilter('a', null, { value: 'xy' });
+
+    service.undo();
+    expect(service.getFilterTree()).toBe(loaded);
+  });
+
+  it('clears the unpinned conditions in one undo step', () => {
+    service.updateFilterMeta('c', { pinned: true });
+    service.clearUnpinnedFilters();
+    expect(shape()).toBe('c');
+
+    service.undo();
+    expect(shape()).toBe('AND(a, b, OR(c, d))');
+  });
+
+  it('reads negation from the operator and the negate flag', () => {
+    expect(service.isNegatedFilter({ id: 'x', field: 'x', operator: 'is_not', value: '1' })).toBe(true);
+    expect(service.isNegatedFilter({ id: 'x', field: 'x', operator: 'is', value: '1', meta: { negate: true } })).toBe(true);
+    expect(service.isNegatedFilter({ id: 'x', field: 'x', operator: 'is_not', value: '1', meta: { negate: true } })).toBe(false);
+  });
+
+  it('describes falsy values instead of a dash', () => {
+    expect(service.describeCondition({ id: 'x', field: 'bytes', operator: 'is', value: 0 })).toBe('bytes: 0');
+    expect(service.describeCondition({ id: 'x', field: 'is_bot', operator: 'is', value: false })).toBe('is_bot: false');
+    expect(service.describeCondition({ id: 'x', field: 'agent', operator: 'is' })).toBe('agent: -');
+  });
+
+  it('does not record loaded trees', () => {
+    service.removeFilter('a');
+    service.setFilterTree(tree);
+    service.clearHistory();
+
+    expect(service.canUndo()).toBe(false);
+    expect(service.canRedo()).toBe(false);
+  });
+});
@@ -1,6 +1,17 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
-import { FilterNode, BooleanNode, FilterCondition, FilterTree, isBooleanNode, isFilterCondition } from '../filter.model';
+import { FilterNode, BooleanNode, FilterCondition, FilterGroup, FilterTree, isBooleanNode, isFilterCondition } from '../filter.model';
+import { compileFilterTree, compileNode, CUSTOM_DSL_OPERATOR, hasRangeBound, QueryClause } from '../common/query-dsl-compiler';
+import { FieldTypeMap } from '../common/field-types';
+import { describeGeoValue } from '../common/geo-filters';
+
+// Pinned filters, kept across dashboard links like Kibana's global filter state
+const PINNED_FILTERS_KEY = 'pinnedFilters';
+
+type FilterMeta = Pick<NonNullable<FilterCondition['meta']>, 'disabled' | 'negate' | 'pinned'>;
+
+// Undo steps kept by the filter editor
+const MAX_HISTORY = 50;
 
 @Injectable({
   providedIn: 'root'
@@ -9,6 +20,11 @@ export class FilterStateService {
   private filterTreeSubject = new BehaviorSubject<FilterTree>({ root: null, id: this.generateId() });
   public filterTree$: Observable<FilterTree> = this.filterTreeSubject.asObservable();
 
+  // Undo/redo history of tree edits; loading a tree with setFilterTree() isn't an edit
+  private undoStack: FilterTree[] = [];
+  private redoStack: FilterTree[] = [];
+  private lastMergeKey: string | null = null;
+
   constructor() {}
 
   /**
@@ -19,12 +35,70 @@ export class FilterStateService {
   }
 
   /**
-   * Sets the filter tree
+   * Sets the filter tree. Only recorded in the undo history when it replaces the tree
+   * as an edit, e.g. from the Query DSL editor.
+   */
+  setFilterTree(tree: FilterTree, recordHistory: boolean = false): void {
+    if (recordHistory) {
+      this.commitEdit(tree);
+      return;
+    }
+    // Edits after the load start a new step
+    this.lastMergeKey = null;
+    this.filterTreeSubject.next(tree);
+  }
+
+  /**
+   * Applies an edit and records the previous tree for undo.
+   * Edits with the same merge key as the previous one are merged into a single step.
    */
-  setFilterTree(tree: FilterTree): void {
+  private commitEdit(tree: FilterTree, mergeKey?: string): void {
+    if (!mergeKey || mergeKey !== this.lastMergeKey) {
+      this.undoStack.push(this.getFilterTree());
+      if (this.undoStack.length > MAX_HISTORY) {
+        this.undoStack.shift();
+      }
+    }
+    this.lastMergeKey = mergeKey || null;
+    this.redoStack = [];
     this.filterTreeSubject.next(tree);
   }
 
+  undo(): void {
+    const previous = this.undoStack.pop();
+    if (!previous) return;
+
+    this.redoStack.push(this.getFilterTree());
+    this.lastMergeKey = null;
+    this.filterTreeSubject.next(previous);
+  }
+
+  redo(): void {
+    const next = this.redoStack.pop();
+    if (!next) return;
+
+    this.undoStack.push(this.getFilterTree());
+    this.lastMergeKey = null;
+    this.filterTreeSubject.next(next);
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Forgets the undo/redo history, e.g. when the filter editor opens on a tree
+   */
+  clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.lastMergeKey = null;
+  }
+
   /**
    * Initializes with a base filter
    */
@@ -45,7 +119,7 @@ export class FilterStateService {
       id: this.generateId()
     };
 
-    this.setFilterTree(tree);
+    this.commitEdit(tree);
   }
 
   /**
@@ -76,7 +150,7 @@ export class FilterStateService {
 
     const newRoot = this.addFilterRecursive(tree.root, parentNodeId, operator, newCondition);
     
-    this.setFilterTree({
+    this.commitEdit({
       ...tree,
       root: newRoot
     });
@@ -125,6 +199,18 @@ export class FilterStateService {
     }
 
     if (isBooleanNode(node)) {
+      // Clicking "+ OR" on a condition inside an OR group (or "+ AND" inside an AND group)
+      // adds a sibling right after it instead of nesting a redundant group of the same kind
+      const siblingIndex = node.children.findIndex(child => child.id === parentNodeId);
+      if (node.operator === operator && siblingIndex > -1 && isFilterCondition(node.children[siblingIndex])) {
+        const children = [...node.children];
+        children.splice(siblingIndex + 1, 0, newFilter);
+        return {
+          ...node,
+          children
+        };
+      }
+
       // Recursively search in children
       return {
         ...node,
@@ -146,10 +232,15 @@ export class FilterStateService {
 
     const newRoot = this.modifyFilterRecursive(tree.root, nodeId, operator, newFilter);
     
-    this.setFilterTree({
+    // Consecutive changes of the same properties of a node (typing a value) are one undo step;
+    // toggling meta flags (disable, negate, pin) is always its own step
+    const mergeKey = 'meta' in newFilter
+      ? undefined
+      : `modify:${nodeId}:${operator}:${Object.keys(newFilter).sort().join(',')}`;
+    this.commitEdit({
       ...tree,
       root: newRoot
-    });
+    }, mergeKey);
   }
 
   /**
@@ -190,6 +281,90 @@ export class FilterStateService {
     return node;
   }
 
+  /**
+   * Sets the disabled, negate or pinned flag of a condition
+   */
+  updateFilterMeta(nodeId: string, changes: FilterMeta): void {
+    const node = this.findNodeById(nodeId);
+    if (!node || !isFilterCondition(node)) return;
+
+    this.modifyFilter(nodeId, null, { meta: { ...node.meta, ...changes } });
+  }
+
+  /**
+   * Removes every condition that isn't pinned ("Clear all"), as a single undo step
+   */
+  clearUnpinnedFilters(): void {
+    const tree = this.getFilterTree();
+    const unpinned = this.getConditions().filter(condition => !condition.meta?.pinned);
+    if (!tree.root || unpinned.length === 0) return;
+
+    const root = unpinned.reduce<FilterNode | null>(
+      (node, condition) => node && this.removeFilterRecursive(node, condition.id),
+      tree.root
+    );
+    this.commitEdit({
+      ...tree,
+      root: this.normalizeNode(root)
+    });
+  }
+
+  /**
+   * Stores the pinned conditions of the tree so they survive navigation
+   */
+  storePinnedFilters(): void {
+    const pinned = this.getConditions()
+      .filter(condition => condition.meta?.pinned)
+      .map(({ logic, ...condition }) => condition);
+    localStorage.setItem(PINNED_FILTERS_KEY, JSON.stringify(pinned));
+  }
+
+  /**
+   * ANDs the stored pinned conditions missing from the tree at its root
+   */
+  restorePinnedFilters(): void {
+    let pinned: FilterCondition[];
+    try {
+      pinned = JSON.parse(localStorage.getItem(PINNED_FILTERS_KEY) || '[]');
+    } catch (error) {
+      return;
+    }
+    if (!Array.isArray(pinned)) return;
+
+    const existing = this.getConditions();
+    const missing: FilterCondition[] = pinned
+      .filter(condition => !existing.some(other => this.isSameCondition(condition, other)))
+      .map(condition => ({ ...condition, id: this.generateId() }));
+    if (missing.length === 0) return;
+
+    const tree = this.getFilterTree();
+    let root: FilterNode;
+    if (!tree.root && missing.length === 1) {
+      root = missing[0];
+    } else if (tree.root && isBooleanNode(tree.root) && tree.root.operator === 'AND') {
+      root = { ...tree.root, children: [...tree.root.children, ...missing] };
+    } else {
+      root = {
+        id: this.generateId(),
+        operator: 'AND',
+        children: tree.root ? [tree.root, ...missing] : missing
+      };
+    }
+    this.setFilterTree({ ...tree, root });
+  }
+
+  /**
+   * Whether two conditions filter the same way, ignoring ids, group logic and pin/disable flags
+   */
+  private isSameCondition(a: FilterCondition, b: FilterCondition): boolean {
+    const key = (condition: FilterCondition) => JSON.stringify([
+      condition.field, condition.operator, condition.value,
+      condition.minOperator, condition.minValue, condition.maxOperator, condition.maxValue,
+      !!condition.meta?.negate
+    ]);
+    return key(a) === key(b);
+  }
+
   /**
    * Removes a filter at the specified node
    */
@@ -199,7 +374,7 @@ export class FilterStateService {
 
     if (tree.root.id === nodeId) {
       // Removing root
-      this.setFilterTree({ root: null, id: this.generateId() });
+      this.commitEdit({ root: null, id: this.generateId() });
       return;
     }
 
@@ -208,7 +383,7 @@ export class FilterStateService {
     // Normalize: if root is a BooleanNode with one child, replace with child
     const normalizedRoot = this.normalizeNode(newRoot);
     
-    this.setFilterTree({
+    this.commitEdit({
       ...tree,
       root: normalizedRoot
     });
@@ -244,6 +419,135 @@ export class FilterStateService {
     return node;
   }
 
+  /**
+   * Moves a node into a group at the given index, like the filters builder's moveFilter.
+   * The index is the position among the group's children once the node has been taken out.
+   * Groups left empty or with a single child are normalized afterwards.
+   * Returns false when the move is impossible (unknown nodes, target isn't a group or is
+   * the moved node itself or one of its descendants).
+   */
+  moveNode(nodeId: string, targetParentId: string, index: number): boolean {
+    const tree = this.getFilterTree();
+    const node = this.findNodeById(nodeId);
+    const target = this.findNodeById(targetParentId);
+    if (!tree.root || !node || !target || !isBooleanNode(target) || this.containsNode(node, targetParentId)) {
+      return false;
+    }
+
+    const detached = this.detachNodeRecursive(tree.root, nodeId);
+    if (!detached) return false;
+
+    const inserted = this.insertNodeRecursive(detached, targetParentId, node, index);
+    this.commitEdit({
+      ...tree,
+      root: this.normalizeNode(inserted)
+    });
+    return true;
+  }
+
+  /**
+   * Drops a node onto a condition: both are wrapped in a new group. The group's operator
+   * alternates with the target's parent group (OR inside AND, AND inside OR), like the
+   * filters builder's combine.
+   */
+  combineNodes(nodeId: string, targetId: string, operator?: 'AND' | 'OR'): boolean {
+    const tree = this.getFilterTree();
+    const node = this.findNodeById(nodeId);
+    const target = this.findNodeById(targetId);
+    if (!tree.root || !node || !target || !isFilterCondition(target) || nodeId === targetId || this.containsNode(node, targetId)) {
+      return false;
+    }
+
+    const parent = this.findParentNode(targetId);
+    const groupOperator = operator || (parent?.operator === 'OR' ? 'AND' : 'OR');
+
+    const detached = this.detachNodeRecursive(tree.root, nodeId);
+    if (!detached) return false;
+
+    const group: BooleanNode = {
+      id: this.generateId(),
+      operator: groupOperator,
+      children: [target, node]
+    };
+    this.commitEdit({
+      ...tree,
+      root: this.normalizeNode(this.replaceNodeRecursive(detached, targetId, group))
+    });
+    return true;
+  }
+
+  /**
+   * Finds the group directly containing a node
+   */
+  findParentNode(nodeId: string): BooleanNode | null {
+    const find = (node: FilterNode): BooleanNode | null => {
+      if (!isBooleanNode(node)) return null;
+      if (node.children.some(child => child.id === nodeId)) return node;
+      for (const child of node.children) {
+        const parent = find(child);
+        if (parent) return parent;
+      }
+      return null;
+    };
+
+    const tree = this.getFilterTree();
+    return tree.root ? find(tree.root) : null;
+  }
+
+  /**
+   * Whether a node is, or contains, the node with the given id
+   */
+  private containsNode(node: FilterNode, nodeId: string): boolean {
+    if (node.id === nodeId) return true;
+    return isBooleanNode(node) && node.children.some(child => this.containsNode(child, nodeId));
+  }
+
+  /**
+   * Takes a node out of the tree without normalizing, so group ids stay valid for insertion
+   */
+  private detachNodeRecursive(node: FilterNode, nodeId: string): FilterNode | null {
+    if (node.id === nodeId) return null;
+
+    if (isBooleanNode(node)) {
+      return {
+        ...node,
+        children: node.children
+          .map(child => this.detachNodeRecursive(child, nodeId))
+          .filter((child): child is FilterNode => child !== null)
+      };
+    }
+
+    return node;
+  }
+
+  private insertNodeRecursive(node: FilterNode, parentId: string, newNode: FilterNode, index: number): FilterNode {
+    if (!isBooleanNode(node)) return node;
+
+    if (node.id === parentId) {
+      const children = [...node.children];
+      children.splice(Math.max(0, Math.min(index, children.length)), 0, newNode);
+      return { ...node, children };
+    }
+
+    return {
+      ...node,
+      children: node.children.map(child => this.insertNodeRecursive(child, parentId, newNode, index))
+    };
+  }
+
+  private replaceNodeRecursive(node: FilterNode, nodeId: string, replacement: FilterNode): FilterNode {
+    if (node.id === nodeId) return replacement;
+
+    if (isBooleanNode(node)) {
+      return {
+        ...node,
+        children: node.children.map(child => this.replaceNodeRecursive(child, nodeId, replacement))
+      };
+    }
+
+    return node;
+  }
+
   /**
    * Toggles the operator of a BooleanNode
    */
@@ -253,7 +557,7 @@ export class FilterStateService {
 
     const newRoot = this.toggleOperatorRecursive(tree.root, nodeId);
     
-    this.setFilterTree({
+    this.commitEdit({
       ...tree,
       root: newRoot
     });
@@ -328,12 +632,8 @@ export class FilterStateService {
    */
   private generatePreviewRecursive(node: FilterNode, parentOperator?: 'AND' | 'OR'): string {
     if (isFilterCondition(node)) {
-      const field = node.field || '-';
-      const value = node.value || '-';
-      const hasNot = this.isNegatedFilter(node);
-      
-      const filterText = `${field}: ${value}`;
-      return hasNot ? `NOT ${filterText}` : filterText;
+      const filterText = this.describeCondition(node);
+      return this.isNegatedFilter(node) ? `NOT ${filterText}` : filterText;
     }
 
     if (isBooleanNode(node)) {
@@ -363,169 +663,134 @@ export class FilterStateService {
   }
 
   /**
-   * Checks if a filter is negated
-   */
-  private isNegatedFilter(filter: FilterCondition): boolean {
-    const operator = filter.operator || '';
-    return operator === 'is_not' || 
-           operator === 'does_not_exist' || 
-           operator === 'is_not_one_of';
-  }
-
-  /**
-   * Generates Elasticsearch Query DSL from the filter tree
+   * Describes a single condition for previews and badges, without the NOT prefix
+   * (e.g. "response: 200", "bytes: Greater Than 10 and Less Than 20", "agent: exists")
    */
-  generateQueryDSL(): any {
-    const tree = this.getFilterTree();
-    if (!tree.root) {
-      return { match_all: {} };
-    }
-
-    return this.generateQueryDSLRecursive(tree.root);
-  }
+  describeCondition(filter: FilterCondition): string {
+    const field = filter.field || '-';
 
-  /**
-   * Recursively generates Query DSL
-   */
-  private generateQueryDSLRecursive(node: FilterNode): any {
-    if (isFilterCondition(node)) {
-      return this.buildSingleFilterQuery(node);
-    }
+    switch (filter.operator) {
+      case CUSTOM_DSL_OPERATOR:
+        return `custom DSL ${JSON.stringify(filter.value)}`;
 
-    if (isBooleanNode(node)) {
-      const childQueries = node.children
-        .map(child => this.generateQueryDSLRecursive(child))
-        .filter(query => query && !this.isEmptyQuery(query));
+      case 'exists':
+      case 'does_not_exist':
+        return `${field}: exists`;
 
-      if (childQueries.length === 0) {
-        return { match_all: {} };
+      case 'range': {
+        const rangeParts: string[] = [];
+        if (hasRangeBound(filter.minValue)) {
+          rangeParts.push(`${this.getRangeOperatorLabel(filter.minOperator || 'gt')} ${filter.minValue}`);
+        }
+        if (hasRangeBound(filter.maxValue)) {
+          rangeParts.push(`${this.getRangeOperatorLabel(filter.maxOperator || 'lt')} ${filter.maxValue}`);
+        }
+        return `${field}: ${rangeParts.length > 0 ? rangeParts.join(' and ') : '-'}`;
       }
 
-      if (childQueries.length === 1) {
-        return childQueries[0];
+      // Like Kibana's "bytes: 0 to 1000", open bounds shown as ≥ / <
+      case 'is_between':
+      case 'is_not_between': {
+        const hasMin = hasRangeBound(filter.minValue);
+        const hasMax = hasRangeBound(filter.maxValue);
+        if (hasMin && hasMax) return `${field}: ${filter.minValue} to ${filter.maxValue}`;
+        if (hasMin) return `${field}: ≥ ${filter.minValue}`;
+        if (hasMax) return `${field}: < ${filter.maxValue}`;
+        return `${field}: -`;
       }
 
-      if (node.operator === 'OR') {
-        return {
-          bool: {
-            should: childQueries,
-            minimum_should_match: 1
-          }
-        };
-      } else {
-        return {
-          bool: {
-            must: childQueries
-          }
-        };
+      case 'is_in_subnet':
+        return `${field}: in ${filter.value ?? '-'}`;
+
+      case 'geo_distance':
+      case 'geo_bounding_box':
+      case 'geo_polygon':
+        return `${field}: ${describeGeoValue(filter.operator, filter.value)}`;
+
+      case 'prefix':
+      case 'wildcard':
+      case 'query_string':
+        return `${field}: ${filter.operator} "${filter.value ?? '-'}"`;
+
+      default: {
+        const value = Array.isArray(filter.value) ? filter.value.join(', ') : filter.value;
+        return `${field}: ${value ?? '-'}`;
       }
     }
+  }
 
-    return { match_all: {} };
+  /**
+   * Gets the display label of a range operator
+   */
+  private getRangeOperatorLabel(operator: string): string {
+    const labels: { [key: string]: string } = {
+      'gt': 'Greater Than',
+      'gte': 'Greater Than/Equal To',
+      'lt': 'Less Than',
+      'lte': 'Less Than/Equal To'
+    };
+    return labels[operator] || operator;
   }
 
   /**
-   * Builds a single Elasticsearch query from a filter condition
+   * Checks if a filter is negated, by its operator or its "Exclude results" flag;
+   * both together cancel out like they do in the compiled query
    */
-  private buildSingleFilterQuery(filter: FilterCondition): any {
-    if (!filter.field || !filter.operator) {
-      return null;
-    }
+  isNegatedFilter(filter: FilterCondition): boolean {
+    const operator = filter.operator || '';
+    const negatedOperator = operator === 'is_not' ||
+      operator === 'does_not_exist' ||
+      operator === 'is_not_one_of' ||
+      operator === 'is_not_between';
+    return negatedOperator !== !!filter.meta?.negate;
+  }
 
-    const operator = filter.operator;
-    const field = filter.field;
-    const value = filter.value;
-    const isKeyword = field.endsWith('.keyword');
-
-    // Helper to check if value is numeric
-    const isNumeric = (val: any): boolean => {
-      if (val === null || val === undefined || val === '') return false;
-      if (typeof val === 'number') return true;
-      if (typeof val === 'string') {
-        return /^-?\d+(\.\d+)?$/.test(val.trim());
-      }
-      return false;
-    };
+  /**
+   * Generates Elasticsearch Query DSL from the filter tree
+   */
+  generateQueryDSL(fieldTypes?: FieldTypeMap): QueryClause {
+    return compileNode(this.getFilterTree().root, fieldTypes);
+  }
 
-    // Helper to convert value
-    const convertValue = (val: any): any => {
-      if (isKeyword) return val;
-      if (isNumeric(val)) {
-        const num = typeof val === 'string' ? parseFloat(val.trim()) : val;
-        return isNaN(num) ? val : num;
-      }
-      return val;
-    };
+  /**
+   * Gets all filter conditions (leaf nodes) in document order.
+   * Each condition's logic is set to the operator of the group it belongs to,
+   * so flat consumers (badges, highlighting) can still show AND/OR between them.
+   */
+  getConditions(): FilterCondition[] {
+    const tree = this.getFilterTree();
+    if (!tree.root) return [];
 
-    switch (operator) {
-      case 'is':
-        if (isKeyword || isNumeric(value)) {
-          return { term: { [field]: convertValue(value) } };
-        }
-        return { match: { [field]: value } };
-      
-      case 'is_not':
-        if (isKeyword || isNumeric(value)) {
-          return { bool: { must_not: [{ term: { [field]: convertValue(value) } }] } };
-        }
-        return { bool: { must_not: [{ match: { [field]: value } }] } };
-      
-      case 'is_one_of':
-        const values = Array.isArray(value) 
-          ? value 
-          : (typeof value === 'string' ? value.split(',').map(v => v.trim()) : [value]);
-        return { terms: { [field]: values } };
-      
-      case 'is_not_one_of':
-        const notValues = Array.isArray(value) 
-          ? value 
-          : (typeof value === 'string' ? value.split(',').map(v => v.trim()) : [value]);
-        return { bool: { must_not: [{ terms: { [field]: notValues } }] } };
-      
-      case 'exists':
-        return { exists: { field } };
-      
-      case 'does_not_exist':
-        return { bool: { must_not: [{ exists: { field } }] } };
-      
-      case 'range':
-        const rangeQuery: any = {};
-        if (filter.minValue) {
-          rangeQuery[filter.minOperator || 'gt'] = convertValue(filter.minValue);
-        }
-        if (filter.maxValue) {
-          rangeQuery[filter.maxOperator || 'lt'] = convertValue(filter.maxValue);
-        }
-        if (Object.keys(rangeQuery).length > 0) {
-          return { range: { [field]: rangeQuery } };
-        }
-        return null;
-      
-      case 'prefix':
-        if (!value) return null;
-        if (isKeyword) {
-          return { prefix: { [field]: value } };
-        }
-        return { wildcard: { [field]: { value: `${value}*`, case_insensitive: true } } };
-      
-      case 'wildcard':
-        if (!value) return null;
-        return { wildcard: { [field]: { value, case_insensitive: true } } };
-      
-      case 'query_string':
-        if (!value) return null;
-        return { query_string: { default_field: field, query: value } };
-      
-      default:
-        return null;
+    const conditions: FilterCondition[] = [];
+    this.collectConditions(tree.root, undefined, conditions);
+    return conditions;
+  }
+
+  /**
+   * Recursively collects filter conditions
+   */
+  private collectConditions(node: FilterNode, parentOperator: 'AND' | 'OR' | undefined, conditions: FilterCondition[]): void {
+    if (isFilterCondition(node)) {
+      conditions.push({ ...node, logic: parentOperator });
+      return;
+    }
+
+    if (isBooleanNode(node)) {
+      node.children.forEach(child => this.collectConditions(child, node.operator, conditions));
     }
   }
 
   /**
-   * Checks if query is empty
+   * Builds the FilterGroup emitted when filters are applied: the flattened conditions,
+   * the tree itself and the Query DSL compiled from it with the data view's field types
    */
-  private isEmptyQuery(query: any): boolean {
-    return !query || (query.match_all && Object.keys(query).length === 1);
+  buildFilterGroup(customLabel?: string, fieldTypes?: FieldTypeMap): FilterGroup {
+    return {
+      filters: this.getConditions(),
+      tree: this.getFilterTree(),
+      customLabel: customLabel || undefined,
+      queryDSL: compileFilterTree(this.getFilterTree(), fieldTypes)
+    };
   }
 
   /**
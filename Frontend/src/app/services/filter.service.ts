@@ -1,6 +1,11 @@
 import { HttpClient, HttpParams } from '@angular/common/http';
 import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
 import { environment } from 'src/environments/environment';
+import { FieldValueSuggestion } from '../filter.model';
+import { DataViewField } from '../data-view.model';
+import { QueryClause } from '../common/query-dsl-compiler';
+import { FieldSummary } from '../common/field-suggestions';
 
 
 
@@ -10,16 +15,47 @@ export class FilterService {
 
   constructor(private http: HttpClient) {}
 
- getFields() {
-    return this.http.get<any[]>(environment.getfields);
+ getFields(dataViewId?: string): Observable<DataViewField[]> {
+    let params = new HttpParams();
+    if (dataViewId) {
+      params = params.set('dataView', dataViewId);
+    }
+    return this.http.get<DataViewField[]>(environment.getfields, { params });
   }
 
 
-  getFieldValues(field: string, searchTerm?: string) {
-    let params = new HttpParams().set('field', field);
+  /**
+   * Suggested values of a field with their document counts.
+   * The context clause scopes the suggestions to documents matching the rest of the filter tree.
+   */
+  getFieldValues(field: string, searchTerm?: string, dataViewId?: string, context?: QueryClause) {
+    let params = new HttpParams().set('field', field).set('counts', 'true');
     if (searchTerm) {
       params = params.set('search', searchTerm);
     }
-    return this.http.get<any[]>(environment.getfiledvalues, { params });
+    if (dataViewId) {
+      params = params.set('dataView', dataViewId);
+    }
+    if (context) {
+      params = params.set('filters', JSON.stringify({ query: context }));
+    }
+    return this.http.get<FieldValueSuggestion[]>(environment.getfiledvalues, { params });
+  }
+
+  /**
+   * Min and max of a numeric or date field, with percentiles when asked for
+   */
+  getFieldSummary(field: string, dataViewId?: string, context?: QueryClause, percentiles: boolean = false) {
+    let params = new HttpParams().set('field', field);
+    if (percentiles) {
+      params = params.set('percentiles', 'true');
+    }
+    if (dataViewId) {
+      params = params.set('dataView', dataViewId);
+    }
+    if (context) {
+      params = params.set('filters', JSON.stringify({ query: context }));
+    }
+    return this.http.get<FieldSummary>(environment.getfieldsummary, { params });
   }
 }
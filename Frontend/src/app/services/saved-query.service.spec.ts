@@ -0,0 +1,19 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClientTestingModule } from '@angular/common/http/testing';
+
+import { SavedQueryService } from './saved-query.service';
+
+describe('SavedQueryService', () => {
+  let service: SavedQueryService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [ HttpClientTestingModule ]
+    });
+    service = TestBed.inject(SavedQueryService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+});
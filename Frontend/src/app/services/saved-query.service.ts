@@ -0,0 +1,86 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { environment } from 'src/environments/environment';
+import { FilterGroup } from '../filter.model';
+import { SavedQuery, SavedQueryAttributes } from '../saved-query.model';
+import { FieldTypeMap } from '../common/field-types';
+import { FilterStateService } from './filter-state.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SavedQueryService {
+  private savedQueriesSubject = new BehaviorSubject<SavedQuery[]>([]);
+  public savedQueries$: Observable<SavedQuery[]> = this.savedQueriesSubject.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private filterStateService: FilterStateService
+  ) {}
+
+  /**
+   * Loads the saved queries, only those of a data view when one is given
+   */
+  loadSavedQueries(dataViewId?: string): Observable<SavedQuery[]> {
+    const params: any = dataViewId ? { dataView: dataViewId } : {};
+    return this.http.get<SavedQuery[]>(environment.savedQueries, { params }).pipe(
+      tap(savedQueries => this.savedQueriesSubject.next(savedQueries))
+    );
+  }
+
+  createSavedQuery(attributes: SavedQueryAttributes): Observable<SavedQuery> {
+    return this.http.post<SavedQuery>(environment.savedQueries, attributes).pipe(
+      tap(created => this.savedQueriesSubject.next(this.sortByName([...this.getSavedQueries(), created])))
+    );
+  }
+
+  /**
+   * Updates the fields given, e.g. the tree and Query DSL for "Save changes"
+   */
+  updateSavedQuery(id: number, changes: Partial<SavedQueryAttributes>): Observable<SavedQuery> {
+    return this.http.put<SavedQuery>(`${environment.savedQueries}/${id}`, changes).pipe(
+      tap(updated => this.savedQueriesSubject.next(this.sortByName(
+        this.getSavedQueries().map(savedQuery => savedQuery.id === id ? updated : savedQuery)
+      )))
+    );
+  }
+
+  renameSavedQuery(id: number, name: string): Observable<SavedQuery> {
+    return this.updateSavedQuery(id, { name });
+  }
+
+  deleteSavedQuery(id: number): Observable<void> {
+    return this.http.delete<void>(`${environment.savedQueries}/${id}`).pipe(
+      tap(() => this.savedQueriesSubject.next(this.getSavedQueries().filter(savedQuery => savedQuery.id !== id)))
+    );
+  }
+
+  /**
+   * Loads a saved query into the filter state, keeping the pinned filters, and returns
+   * the FilterGroup to apply, recompiled with the current data view's field types
+   */
+  applySavedQuery(savedQuery: SavedQuery, fieldTypes?: FieldTypeMap): FilterGroup {
+    this.filterStateService.setFilterTree(savedQuery.tree);
+    this.filterStateService.restorePinnedFilters();
+    return this.filterStateService.buildFilterGroup(savedQuery.customLabel, fieldTypes);
+  }
+
+  getSavedQueries(): SavedQuery[] {
+    return this.savedQueriesSubject.value;
+  }
+
+  /**
+   * Whether another saved query already uses the name (names are unique, case-insensitive)
+   */
+  isDuplicateName(name: string, exceptId?: number): boolean {
+    const normalized = name.trim().toLowerCase();
+    return this.getSavedQueries().some(savedQuery =>
+      savedQuery.id !== exceptId && savedQuery.name.toLowerCase() === normalized);
+  }
+
+  private sortByName(savedQueries: SavedQuery[]): SavedQuery[] {
+    return savedQueries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
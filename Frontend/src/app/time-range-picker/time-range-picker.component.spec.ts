@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormsModule } from '@angular/forms';
+
+import { TimeRangePickerComponent } from './time-range-picker.component';
+
+describe('TimeRangePickerComponent', () => {
+  let component: TimeRangePickerComponent;
+  let fixture: ComponentFixture<TimeRangePickerComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ FormsModule ],
+      declarations: [ TimeRangePickerComponent ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(TimeRangePickerComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,100 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { DEFAULT_TIME_RANGE, getTimeRangeLabel, isValidTimeRange, parseDateMath, QUICK_RANGES, QuickRange, TimeRange } from '../common/time-range';
+
+@Component({
+  selector: 'app-time-range-picker',
+  templateUrl: './time-range-picker.component.html',
+  styleUrls: ['./time-range-picker.component.scss']
+})
+export class TimeRangePickerComponent implements OnChanges {
+  @Input() timeRange: TimeRange = DEFAULT_TIME_RANGE;
+  @Output() timeRangeChange = new EventEmitter<TimeRange>();
+
+  quickRanges: QuickRange[] = QUICK_RANGES;
+  isOpen: boolean = false;
+
+  // Editable bounds: date math ("now-7d/d") or absolute dates
+  fromInput: string = '';
+  toInput: string = '';
+  rangeError: string | null = null;
+
+  ngOnChanges(): void {
+    this.resetInputs();
+  }
+
+  get label(): string {
+    return getTimeRangeLabel(this.timeRange);
+  }
+
+  togglePopover(): void {
+    this.isOpen = !this.isOpen;
+    if (this.isOpen) {
+      this.resetInputs();
+    }
+  }
+
+  selectQuickRange(range: QuickRange): void {
+    this.applyRange({ from: range.from, to: range.to });
+  }
+
+  isSelected(range: QuickRange): boolean {
+    return range.from === this.timeRange.from && range.to === this.timeRange.to;
+  }
+
+  /**
+   * Fills a bound from the absolute date input
+   */
+  onAbsoluteChange(bound: 'from' | 'to', value: string): void {
+    if (!value) {
+      return;
+    }
+    const isoDate = new Date(value).toISOString();
+    if (bound === 'from') {
+      this.fromInput = isoDate;
+    } else {
+      this.toInput = isoDate;
+    }
+    this.rangeError = null;
+  }
+
+  /**
+   * Absolute date input value (local time) of a bound, resolved from its expression
+   */
+  getAbsoluteValue(bound: 'from' | 'to'): string {
+    const date = parseDateMath(bound === 'from' ? this.fromInput : this.toInput, bound === 'to');
+    if (!date) {
+      return '';
+    }
+    const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+    return local.toISOString().substring(0, 16);
+  }
+
+  applyCustomRange(): void {
+    const range: TimeRange = { from: this.fromInput.trim(), to: this.toInput.trim() };
+    if (!parseDateMath(range.from) || !parseDateMath(range.to, true)) {
+      this.rangeError = 'Use a date (2024-01-01T00:00:00) or date math (now-7d/d)';
+      return;
+    }
+    if (!isValidTimeRange(range)) {
+      this.rangeError = 'Start date must be before end date';
+      return;
+    }
+    this.applyRange(range);
+  }
+
+  refresh(): void {
+    this.timeRangeChange.emit({ ...this.timeRange });
+  }
+
+  private applyRange(range: TimeRange): void {
+    this.isOpen = false;
+    this.rangeError = null;
+    this.timeRangeChange.emit(range);
+  }
+
+  private resetInputs(): void {
+    this.fromInput = this.timeRange.from;
+    this.toInput = this.timeRange.to;
+    this.rangeError = null;
+  }
+}
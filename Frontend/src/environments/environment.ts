@@ -36,9 +36,25 @@ export const environment = {
 // Kibana-like Web Logs Search
 webLogsSearch: API_URL + '/api/elastic/web-logs-search',
 
+webLogsSearchPit: API_URL + '/api/elastic/web-logs-search/pit',
+
+webLogsExport: API_URL + '/api/elastic/web-logs-export',
+
+webLogsHistogram: API_URL + '/api/elastic/web-logs-histogram',
+
+webLogsGeo: API_URL + '/api/elastic/web-logs-geo',
+
+webLogsTopValues: API_URL + '/api/elastic/web-logs-top-values',
+
+dataViews: API_URL + '/api/elastic/data-views',
+
+savedQueries: API_URL + '/api/elastic/saved-queries',
+
 
 getfields:API_URL + '/api/elastic/fields',
 
 getfiledvalues:API_URL + '/api/elastic/field-values',
 
+getfieldsummary:API_URL + '/api/elastic/field-summary',
+
   };
\ No newline at end of file